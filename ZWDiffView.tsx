@@ -0,0 +1,96 @@
+import React, { useMemo } from 'react';
+import ZWTemplateVisualizer from './ZWTemplateVisualizer';
+import { ZWNode, ZWListItem, ZWDocument, parseZWDocument } from './zwParser';
+import { ZWChange, ZWChangeKind, diffZWDocuments } from './zwDiff';
+
+interface ZWDiffViewProps {
+  before: string;
+  after: string;
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+type Highlights = Map<ZWNode | ZWListItem, string>;
+
+const CHANGE_COLORS: Record<ZWChangeKind, string> = {
+  added: '#d5f5e3',
+  removed: '#fadbd8',
+  changed: '#fcf3cf',
+  moved: '#e8daef',
+};
+
+const CHANGE_SYMBOLS: Record<ZWChangeKind, string> = { added: '+', removed: '−', changed: '~', moved: '↷' };
+
+const describeValue = (element?: ZWNode | ZWListItem): string => {
+  if (!element) return '';
+  if (typeof element.value === 'string') return element.value;
+  const isSection = Array.isArray(element.value) && element.value.some(child => child.kind === 'node');
+  return isSection || element.flowStyle === 'map' ? '{…}' : '[…]';
+};
+
+const describeChange = (change: ZWChange): string => {
+  const path = change.path || '(packet)';
+  switch (change.kind) {
+    case 'added':
+    case 'removed':
+      return path;
+    case 'moved':
+      return `${change.oldPath} → ${path}`;
+    case 'changed':
+      if (change.path === '') {
+        return `packet type: ${(change.before as ZWNode).key} → ${(change.after as ZWNode).key}`;
+      }
+      return `${change.oldPath ? `${change.oldPath} → ` : ''}${path}: ${describeValue(change.before)} → ${describeValue(change.after)}`;
+  }
+};
+
+// Two documents side by side, with the elements that differ colored by kind of change
+// and the changes listed by path underneath.
+const ZWDiffView: React.FC<ZWDiffViewProps> = ({ before, after, beforeLabel = 'Before', afterLabel = 'After' }) => {
+  const beforeDocument: ZWDocument = useMemo(() => parseZWDocument(before), [before]);
+  const afterDocument: ZWDocument = useMemo(() => parseZWDocument(after), [after]);
+  const changes: ZWChange[][] = useMemo(() => diffZWDocuments(beforeDocument, afterDocument), [beforeDocument, afterDocument]);
+
+  const { beforeHighlights, afterHighlights }: { beforeHighlights: Highlights; afterHighlights: Highlights } = useMemo(() => {
+    const beforeHighlights: Highlights = new Map();
+    const afterHighlights: Highlights = new Map();
+    changes.flat().forEach(change => {
+      // A changed packet type would color the whole packet; the list below reports it.
+      if (change.kind === 'changed' && change.path === '') return;
+      if (change.before) beforeHighlights.set(change.before, CHANGE_COLORS[change.kind]);
+      if (change.after) afterHighlights.set(change.after, CHANGE_COLORS[change.kind]);
+    });
+    return { beforeHighlights, afterHighlights };
+  }, [changes]);
+
+  const changeCount = changes.reduce((count, packetChanges) => count + packetChanges.length, 0);
+  const columnStyle: React.CSSProperties = { flex: 1, minWidth: 0, border: '1px solid #ddd', borderRadius: '4px', padding: '8px', overflowX: 'auto' };
+
+  return (
+    <div className="zw-diff-view">
+      <div style={{ display: 'flex', gap: '10px' }}>
+        <div style={columnStyle}>
+          <h4 style={{ margin: '0 0 8px 0' }}>{beforeLabel}</h4>
+          <ZWTemplateVisualizer templateDefinition={before} document={beforeDocument} highlightedElements={beforeHighlights} />
+        </div>
+        <div style={columnStyle}>
+          <h4 style={{ margin: '0 0 8px 0' }}>{afterLabel}</h4>
+          <ZWTemplateVisualizer templateDefinition={after} document={afterDocument} highlightedElements={afterHighlights} />
+        </div>
+      </div>
+      {changeCount === 0 ? (
+        <p style={{ color: '#7f8c8d' }}>No structural changes.</p>
+      ) : (
+        <ul style={{ listStyleType: 'none', padding: 0, margin: '8px 0', fontFamily: "'Courier New', Courier, monospace", fontSize: '0.85em' }}>
+          {changes.flatMap((packetChanges, packetIndex) => packetChanges.map((change, index) => (
+            <li key={`${packetIndex}-${index}`} style={{ backgroundColor: CHANGE_COLORS[change.kind], padding: '2px 6px', marginBottom: '2px', whiteSpace: 'pre-wrap' }}>
+              {CHANGE_SYMBOLS[change.kind]} {changes.length > 1 ? `Packet ${packetIndex + 1}: ` : ''}{describeChange(change)}
+            </li>
+          )))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ZWDiffView;
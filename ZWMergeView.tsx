@@ -0,0 +1,103 @@
+import React, { useMemo, useState } from 'react';
+import CopyButton from './CopyButton';
+import ZWSyntaxHighlighter from './ZWSyntaxHighlighter';
+import { ZWNode, ZWListItem, parseZW } from './zwParser';
+import { stringifyZWElements } from './zwStringify';
+import { ZWMergeChoice, ZWMergeConflict, ZWMergeResult, mergeZW, stringifyZWMerge } from './zwMerge';
+
+interface ZWMergeViewProps {
+  base: string;
+  ours: string;
+  theirs: string;
+  oursLabel?: string;
+  theirsLabel?: string;
+  onAccept: (merged: string) => void; // Called with the merged text once every conflict has a resolution
+  onCancel: () => void;
+}
+
+const CHOICE_LABELS: Record<ZWMergeChoice, string> = { ours: 'Keep ours', theirs: 'Take theirs', base: 'Keep original', both: 'Keep both' };
+
+const SIDE_STYLE: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  margin: 0,
+  padding: '6px',
+  background: '#f9f9f9',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontFamily: "'Courier New', Courier, monospace",
+  fontSize: '0.85em',
+  whiteSpace: 'pre-wrap',
+};
+
+const printSide = (elements: Array<ZWNode | ZWListItem>): string =>
+  elements.length > 0 ? stringifyZWElements(elements) : '(nothing)';
+
+// Resolves the conflicts of a three-way merge one by one, with a live preview of the
+// merged packet. Open conflicts show in the preview as comment markers.
+const ZWMergeView: React.FC<ZWMergeViewProps> = ({ base, ours, theirs, oursLabel = 'Ours', theirsLabel = 'Theirs', onAccept, onCancel }) => {
+  const [choices, setChoices] = useState<Record<number, ZWMergeChoice>>({});
+  const roots: Array<ZWNode | null> = useMemo(() => [parseZW(base), parseZW(ours), parseZW(theirs)], [base, ours, theirs]);
+  const result: ZWMergeResult | null = useMemo(() => {
+    const [baseRoot, ourRoot, theirRoot] = roots;
+    if (!baseRoot || !ourRoot || !theirRoot) return null;
+    return mergeZW(baseRoot, ourRoot, theirRoot, (_, index) => choices[index]);
+  }, [roots, choices]);
+
+  if (!result) {
+    return <p style={{ color: '#c0392b' }}>The versions could not be merged because one of them does not parse.</p>;
+  }
+  const mergedText = stringifyZWMerge(result);
+  const openCount = result.conflicts.filter(conflict => conflict.resolution === undefined).length;
+
+  const renderConflict = (conflict: ZWMergeConflict, index: number) => (
+    <li key={index} style={{ marginBottom: '12px', padding: '8px', border: '1px solid #f5b7b1', borderRadius: '4px', background: conflict.resolution ? '#fdfefe' : '#fdedec' }}>
+      <strong style={{ fontFamily: "'Courier New', Courier, monospace" }}>{conflict.path || '(packet type)'}</strong>
+      <div style={{ display: 'flex', gap: '8px', marginTop: '6px' }}>
+        <div style={{ flex: 1, minWidth: 0 }}><em>Original</em><pre style={SIDE_STYLE}>{printSide(conflict.base)}</pre></div>
+        <div style={{ flex: 1, minWidth: 0 }}><em>{oursLabel}</em><pre style={SIDE_STYLE}>{printSide(conflict.ours)}</pre></div>
+        <div style={{ flex: 1, minWidth: 0 }}><em>{theirsLabel}</em><pre style={SIDE_STYLE}>{printSide(conflict.theirs)}</pre></div>
+      </div>
+      <div style={{ marginTop: '6px' }}>
+        {(Object.keys(CHOICE_LABELS) as ZWMergeChoice[])
+          .filter(choice => choice !== 'both' || conflict.inList)
+          .map(choice => (
+            <label key={choice} style={{ marginRight: '12px', fontSize: '0.9em' }}>
+              <input
+                type="radio"
+                name={`merge-conflict-${index}`}
+                checked={conflict.resolution === choice}
+                onChange={() => setChoices(prev => ({ ...prev, [index]: choice }))}
+              />
+              {CHOICE_LABELS[choice]}
+            </label>
+          ))}
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="zw-merge-view">
+      <p style={{ marginTop: 0 }}>
+        {result.conflicts.length === 0
+          ? 'The changes merge cleanly.'
+          : `${result.conflicts.length} conflict(s), ${openCount} still open.`}
+      </p>
+      {result.conflicts.length > 0 && (
+        <ul style={{ listStyleType: 'none', padding: 0 }}>{result.conflicts.map(renderConflict)}</ul>
+      )}
+      <h4>Merged Result
+        <CopyButton textToCopy={mergedText} buttonText="Copy with Conflict Markers" style={{ marginLeft: '10px' }} />
+      </h4>
+      <ZWSyntaxHighlighter zwString={mergedText} />
+      <button className="action-button" onClick={() => onAccept(mergedText)} disabled={openCount > 0} style={{ marginTop: '10px' }}>
+        Use Merged Template
+      </button>
+      <button className="action-button secondary" onClick={onCancel} style={{ marginTop: '10px', marginLeft: '10px' }}>
+        Cancel
+      </button>
+    </div>
+  );
+};
+
+export default ZWMergeView;
@@ -1,4 +1,10 @@
 import React from 'react';
+import { ZW_KEY_PATTERN } from './zwParser';
+
+// Keys as the parser reads them: bare (letters, digits, "_", "-", ".") or quoted.
+const LIST_ITEM_KV_REGEX = new RegExp(`^(\\s*)(- )((?:${ZW_KEY_PATTERN}):)(\\s*)(.*)$`, 'u');
+const SECTION_REGEX = new RegExp(`^(\\s*)((?:${ZW_KEY_PATTERN}):)(\\s*)$`, 'u');
+const KEY_VALUE_REGEX = new RegExp(`^(\\s*)((?:${ZW_KEY_PATTERN}):)(\\s*)(.*)$`, 'u');
 
 interface ZWSyntaxHighlighterProps {
   zwString: string;
@@ -25,7 +31,7 @@ const ZWSyntaxHighlighter: React.FC<ZWSyntaxHighlighterProps> = ({ zwString }) =
     }
     
     // 3. List item with Key-Value (e.g., "  - Key: Value") - must be checked before simple list item
-    const listItemKvMatch = line.match(/^(\s*)(- )([A-Za-z0-9_]+:)(\s*)(.*)$/);
+    const listItemKvMatch = line.match(LIST_ITEM_KV_REGEX);
     if (listItemKvMatch) {
       return <>{listItemKvMatch[1]}<span className="zw-list-marker">{listItemKvMatch[2]}</span><span className="zw-key">{listItemKvMatch[3]}</span>{listItemKvMatch[4]}<span className="zw-value">{listItemKvMatch[5]}</span></>;
     }
@@ -37,13 +43,13 @@ const ZWSyntaxHighlighter: React.FC<ZWSyntaxHighlighterProps> = ({ zwString }) =
     }
     
     // 5. Section (e.g., "  SECTIONNAME:")
-    const sectionMatch = line.match(/^(\s*)([A-Za-z0-9_]+:)(\s*)$/);
+    const sectionMatch = line.match(SECTION_REGEX);
     if (sectionMatch) {
       return <>{sectionMatch[1]}<span className="zw-section">{sectionMatch[2]}</span>{sectionMatch[3]}</>;
     }
 
     // 6. Key-Value pair (e.g., "  Key: Value")
-    const keyValueMatch = line.match(/^(\s*)([A-Za-z0-9_]+:)(\s*)(.*)$/);
+    const keyValueMatch = line.match(KEY_VALUE_REGEX);
     if (keyValueMatch) {
       return <>{keyValueMatch[1]}<span className="zw-key">{keyValueMatch[2]}</span>{keyValueMatch[3]}<span className="zw-value">{keyValueMatch[4]}</span></>;
     }
@@ -1,13 +1,49 @@
 
-import React from 'react';
-import { ZWNode, ZWListItem, parseZW } from './zwParser'; // Updated import
+import React, { useContext } from 'react';
+import { ZWNode, ZWListItem, ZWFlowStyle, ZWSpan, ZWDocument, parseZWDocument, formatZWDiagnostic, formatZWKey } from './zwParser'; // Updated import
 
 // ZWNode, ZWListItem interfaces, getIndentation, and parseZWForVisualizer are removed.
 // They will now reside in zwParser.ts.
 
+interface VisualizerInteraction {
+  onSelectSpan?: (span: ZWSpan) => void; // Called with the source span of a clicked element
+  activeLine?: number; // 1-based line of the editor cursor; the element starting there is highlighted
+  highlightedElements?: ReadonlyMap<ZWNode | ZWListItem, string>; // Background color per element, e.g. query matches; needs the `document` prop, so the elements are the ones rendered
+}
+
+const VisualizerInteractionContext = React.createContext<VisualizerInteraction>({});
+
+// Row styling shared by nodes and list items: clickable when a selection handler is
+// provided, highlighted when the editor cursor sits on the element's first line or when
+// the element has a highlight color.
+const useRowProps = (element: ZWNode | ZWListItem, marginLeft: number) => {
+  const { onSelectSpan, activeLine, highlightedElements } = useContext(VisualizerInteractionContext);
+  const span = element.span;
+  const isActive = span !== undefined && activeLine === span.start.line;
+  const highlight = highlightedElements?.get(element);
+  return {
+    style: {
+      marginLeft: `${marginLeft}px`,
+      cursor: onSelectSpan && span ? 'pointer' : undefined,
+      backgroundColor: isActive ? '#fff3cd' : highlight,
+      outline: highlight ? '1px solid rgba(0, 0, 0, 0.12)' : undefined,
+    },
+    onClick: onSelectSpan && span ? (e: React.MouseEvent) => { e.stopPropagation(); onSelectSpan(span); } : undefined,
+  };
+};
+
+const COMMENT_STYLE: React.CSSProperties = { color: '#95a5a6', fontStyle: 'italic', whiteSpace: 'pre-wrap' };
+
+const renderLeadingComments = (comments?: string[]): JSX.Element[] =>
+  (comments ?? []).map((comment, index) => <div key={`comment-${index}`} style={COMMENT_STYLE}># {comment}</div>);
+
+const renderInlineComment = (comment?: string): JSX.Element | null =>
+  comment === undefined ? null : <span style={COMMENT_STYLE}> # {comment}</span>;
+
 const renderValue = (
   val: ZWNode['value'] | ZWListItem['value'], 
-  depth: number
+  depth: number,
+  flowStyle?: ZWFlowStyle
 ): JSX.Element | null => {
   if (typeof val === 'string') {
     return val.trim() === '' ? null : <span style={{ color: '#27ae60', whiteSpace: 'pre-wrap' }}>{val}</span>;
@@ -15,6 +51,10 @@ const renderValue = (
   if (val === undefined || val === null) {
     return null;
   }
+  if (Array.isArray(val) && val.length === 0 && flowStyle) {
+    // Inline empty collection, shown the way it was written
+    return <span style={{ color: '#27ae60' }}>{flowStyle === 'list' ? '[]' : '{}'}</span>;
+  }
   if (Array.isArray(val) && val.length > 0) {
     const childrenToRender = val.filter(child => child !== undefined && child !== null);
     if (childrenToRender.length === 0) return null;
@@ -33,64 +73,97 @@ const renderValue = (
 };
 
 const RenderNode: React.FC<{ node: ZWNode | ZWListItem }> = ({ node }) => {
-  if ('key' in node && node.key !== undefined) {
+  if (node.kind === 'node') {
     const zwNode = node as ZWNode;
-    const valueOutput = renderValue(zwNode.value, zwNode.depth);
+    const valueOutput = renderValue(zwNode.value, zwNode.depth, zwNode.flowStyle);
+    const rowProps = useRowProps(zwNode, zwNode.depth * 10 - (zwNode.depth > 0 ? 10:0));
+
+    // Inline comments follow a scalar value, or the key itself when children follow.
+    const inlineComment = renderInlineComment(zwNode.inlineComment);
+    const valueIsScalar = typeof zwNode.value === 'string' || zwNode.flowStyle !== undefined;
 
     return (
-      <div style={{ marginLeft: `${zwNode.depth * 10 - (zwNode.depth > 0 ? 10:0) }px`}}>
+      <div {...rowProps}>
+        {renderLeadingComments(zwNode.leadingComments)}
         <strong style={{ color: zwNode.depth === 0 ? '#5D3FD3' : '#c0392b', fontSize: zwNode.depth === 0 ? '1.1em': '1em' }}>
-          {zwNode.key}:
+          {zwNode.key ? formatZWKey(zwNode.key) : '(missing ZW type)'}:
         </strong>
-        {(typeof zwNode.value === 'string' && zwNode.value.trim() !== '' && valueOutput) ? ' ' : ''}
+        {!valueIsScalar && inlineComment}
+        {(valueOutput && valueIsScalar) ? ' ' : ''}
         {valueOutput}
+        {valueIsScalar && inlineComment}
+        {zwNode.depth === 0 && renderLeadingComments(zwNode.trailingComments)}
       </div>
     );
   } else { 
     const listItem = node as ZWListItem;
-    const valueElement = renderValue(listItem.value, listItem.depth); 
-    
-    // Use listItem.delimiter in rendering if needed, though current style uses ':' visually for keys
-    const displayDelimiter = listItem.isKeyValue ? ':' : '';
-
+    const rowProps = useRowProps(listItem, listItem.depth * 10 -10);
 
-    if (listItem.isKeyValue && listItem.itemKey) {
+    if (Array.isArray(listItem.value) && listItem.value.length > 0) {
+      // An item that owns keys (or a nested list): its first entry sits next to the
+      // marker and the remaining entries line up underneath it.
       return (
-        <div style={{ marginLeft: `${listItem.depth * 10 -10 }px`}}>
+        <div {...rowProps}>
+          {renderLeadingComments(listItem.leadingComments)}
           <span style={{ fontWeight: 'normal', color: '#2980b9' }}>- </span>
-          <strong style={{ color: '#c0392b' }}>{listItem.itemKey}{displayDelimiter}</strong>
-          {(valueElement && typeof listItem.value === 'string' && listItem.value.trim() !== '') ? ' ' : ''}
-          {valueElement}
+          {renderInlineComment(listItem.inlineComment)}
+          {/* Children carry their own depth-based margin; cancel it so they start right after the marker. */}
+          <div style={{ display: 'inline-block', verticalAlign: 'top', marginLeft: `-${listItem.depth * 10}px` }}>
+            {(listItem.value as Array<ZWNode | ZWListItem>).map((child, index) => (
+              <RenderNode key={index} node={child} />
+            ))}
+          </div>
         </div>
       );
     }
     return (
-      <div style={{ marginLeft: `${listItem.depth * 10 -10 }px`}}>
+      <div {...rowProps}>
+        {renderLeadingComments(listItem.leadingComments)}
         <span style={{ fontWeight: 'normal', color: '#2980b9' }}>- </span>
-        {valueElement}
+        {renderValue(listItem.value, listItem.depth, listItem.flowStyle)}
+        {renderInlineComment(listItem.inlineComment)}
       </div>
     );
   }
 };
 
 
-const ZWTemplateVisualizer: React.FC<{ templateDefinition: string }> = ({ templateDefinition }) => {
+interface ZWTemplateVisualizerProps extends VisualizerInteraction {
+  templateDefinition: string;
+  document?: ZWDocument; // Already parsed, e.g. a streaming parser's snapshot; templateDefinition is then not parsed
+}
+
+const ZWTemplateVisualizer: React.FC<ZWTemplateVisualizerProps> = ({ templateDefinition, document, onSelectSpan, activeLine, highlightedElements }) => {
   // Use the new shared parser.
   // For visualization, we typically use the default ':' delimiter.
   // If a future feature allows specifying delimiter for visualization, it can be passed here.
-  const parsedStructure = parseZW(templateDefinition); 
+  const { packets } = document ?? parseZWDocument(templateDefinition);
 
-  if (!parsedStructure) {
+  if (packets.length === 0) {
     return <p style={{color: '#7f8c8d'}}>Type ZW code to see visual preview...</p>;
   }
-  
-  if (parsedStructure.key.startsWith('Error:')) {
-     return <p style={{color: 'red', whiteSpace: 'pre-wrap'}}>{parsedStructure.key} {typeof parsedStructure.value === 'string' ? parsedStructure.value : ''}</p>;
-  }
 
+  // The parser always returns a best-effort tree, so render it alongside any problems found.
+  // Each packet of a multi-packet document gets its own block.
   return (
     <div className="zw-visualizer-tree" style={{ fontFamily: "'Courier New', Courier, monospace", fontSize: '0.85em', lineHeight: '1.6' }}>
-      <RenderNode node={parsedStructure} />
+      <VisualizerInteractionContext.Provider value={{ onSelectSpan, activeLine, highlightedElements }}>
+        {packets.map((packet, packetIndex) => (
+          <div key={packetIndex}>
+            {packetIndex > 0 && <hr style={{ border: 'none', borderTop: '1px dashed #bdc3c7', margin: '8px 0' }} />}
+            {packet.diagnostics.length > 0 && (
+              <ul style={{ listStyleType: 'none', padding: 0, margin: '0 0 8px 0' }}>
+                {packet.diagnostics.map((d, index) => (
+                  <li key={index} style={{ color: d.severity === 'error' ? 'red' : d.severity === 'warning' ? '#d35400' : '#7f8c8d', whiteSpace: 'pre-wrap' }}>
+                    {d.severity.toUpperCase()}: {formatZWDiagnostic(d)}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {packet.root && <RenderNode node={packet.root} />}
+          </div>
+        ))}
+      </VisualizerInteractionContext.Provider>
     </div>
   );
 };
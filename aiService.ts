@@ -99,15 +99,13 @@ export class AIService {
       if (options?.stream && options?.onStream) {
         let fullResponse = '';
         await this.ollamaClient.generateStream(
-          {
-            model,
-            prompt,
-            options: { temperature }
-          },
+          model,
+          prompt,
           (chunk) => {
             fullResponse += chunk;
             options.onStream!(chunk);
-          }
+          },
+          { options: { temperature } }
         );
         return fullResponse;
       } else {
@@ -1,16 +1,27 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
 import ZWTemplateVisualizer from './ZWTemplateVisualizer';
 import ZWSyntaxHighlighter from './ZWSyntaxHighlighter'; // Import the new highlighter
+import ZWDiffView from './ZWDiffView';
+import ZWMergeView from './ZWMergeView';
 import AutoCompleteDropdown from './AutoCompleteDropdown'; // Import AutoCompleteDropdown
 import CopyButton from './CopyButton'; // Import the new CopyButton
 import { SimpleAIService, SimpleAIConfig } from './simpleAiService';
 import { getAvailableModels } from './ollamaClient';
-import { ZWNode, ZWListItem, parseZW } from './zwParser';
-import { convertZwToGodot } from './zwToGodotScript'; // Import Godot converter
+import { ZWNode, ZWListItem, ZWSpan, ZWDiagnostic, ZWDocument, parseZWWithDiagnostics, parseZWDocument, createZWStreamParser, hasParseErrors, formatZWDiagnostic, detectZWIndentation, unquoteZWString, ZW_KEY_PATTERN } from './zwParser';
+import { convertZwDocumentToGodot } from './zwToGodotScript'; // Import Godot converter
 import { convertJsonToZwString } from './jsonToZw'; // Import JSON to ZW converter
-import { convertZwToJsonObject } from './zwToJson'; // Import ZW to JSON converter
+import { convertZwToJson } from './zwToJson'; // Import ZW to JSON converter
+import { formatZW, stringifyZW, stringifyZWDocument } from './zwStringify';
+import { queryZW, ZWQueryError } from './zwQuery';
+import { applyZWPatch, createZWPatch, ZWPatchError } from './zwPatch';
+import { mergeZW } from './zwMerge';
+import { ZWSchema, ZWSchemaIssue, ZWSchemaError, parseZWSchema, validateZWSchema, formatZWSchemaIssue, getZWSchemaTarget, getZWExampleSchema, isZWSchema, inferZWSchema, createZWSchemaPacket, getZWPacketVersion, getZWSchemaName, listZWSchemaFields } from './zwSchema';
+import { ZWVocabulary, findZWVocabulary, parseZWVocabularyValues } from './zwVocabulary';
+import { ZWIntegrityIssueKind, checkZWIntegrity, formatZWReferenceOccurrence } from './zwIntegrity';
+import { migrateZW, formatZWMigrationIssue, ZWMigrationError } from './zwMigrate';
+import { ZWTextEdit, applyZWEdits } from './zwCst';
 
 // --- App Component ---
 type TabKey = 'projects' | 'create' | 'validate' | 'visualize' | 'export' | 'library' | 'guide';
@@ -34,12 +45,15 @@ interface Project {
   name: string;
   description: string;
   schemas: ZWSchemaDefinition[];
+  vocabularies?: ZWVocabulary[]; // Controlled vocabularies that schema fields refer to; absent in projects saved before they existed
 }
 
 interface ValidationFeedback {
   type: 'success' | 'error' | 'info' | 'warning';
   message: string;
   details?: string[];
+  locations?: Array<ZWSpan | undefined>; // Where each detail points in `source`, for click-to-locate
+  source?: string; // The validated text
   suggestions?: string[];
 }
 
@@ -132,7 +146,55 @@ const EXAMPLE_SIMPLE_TASK_ZW = `ZW-SIMPLE-TASK:
     - "Full Sensor Suite"
 # This template outlines a simple task or mission, useful for tracking objectives
 # or procedural content generation in a game or simulation.`;
-
+const EXAMPLE_VOCABULARIES: ZWVocabulary[] = [
+  { name: 'EMOTION_TAGS', values: ['Startled', 'Determined', 'Joyful', 'Anxious', 'Ominous', 'Frantic', 'Concerned', 'Curious'] },
+  { name: 'SEQUENCE_TYPES', values: ['DIALOGUE', 'ACTION', 'EVENT', 'OBSERVATION', 'EMOTIONAL_BEAT', 'OBJECTIVE_UPDATE'] },
+  { name: 'QUEST_STATUSES', values: ['NEW', 'ACTIVE', 'COMPLETED', 'FAILED'] },
+];
+
+const EXAMPLE_SIMPLE_TASK_SCHEMA_ZW = `ZW-SCHEMA:
+  TARGET: ZW-SIMPLE-TASK
+  DESCRIPTION: "The fields of a ZW-SIMPLE-TASK packet, with their types and limits."
+  FIELDS:
+    TASK_ID:
+      TYPE: string
+      REQUIRED: true
+      PATTERN: "^task_[0-9]+$"
+    TITLE:
+      TYPE: string
+      REQUIRED: true
+      MAX_LENGTH: 80
+    DESCRIPTION: string
+    PRIORITY:
+      TYPE: enum
+      VALUES: [Low, Normal, High, Critical]
+      DEFAULT: Normal
+    STATUS:
+      TYPE: enum
+      REQUIRED: true
+      VALUES: [Pending, Assigned, InProgress, Blocked, Completed]
+    ASSIGNEE_ID: string
+    DUE_DATE:
+      TYPE: string
+      DESCRIPTION: "In-game time, e.g. Ship Time: Cycle 3, Day 18:00"
+    SUB_TASKS:
+      TYPE: list_of_strings
+      MIN_LENGTH: 1
+    RESOURCES_REQUIRED: list_of_strings
+# Packets of type ZW-SIMPLE-TASK are checked against these field definitions
+# when validated in a project that holds this schema.`;
+
+
+// Keys in the lines vocabulary suggestions look at, written as the parser reads them (bare
+// or quoted): one being given a value ("KEY: " or "- KEY: "), and one alone on its line
+// that opens a list ("KEY:").
+const VALUE_KEY_REGEX = new RegExp(`^((?:-\\s+)?(${ZW_KEY_PATTERN}):\\s+)(.*)$`, 'u');
+const OPENING_KEY_REGEX = new RegExp(`^\\s*(?:-\\s+)?(${ZW_KEY_PATTERN}):\\s*$`, 'u');
+
+// The typed schema among parsed schema definitions that a name refers to, by its NAME or TARGET.
+const findNamedSchema = (parsed: Array<{ root: ZWNode | null; diagnostics: ZWDiagnostic[] }>, name: string): ZWNode | undefined =>
+  parsed.find(({ root, diagnostics }) =>
+    root && !hasParseErrors(diagnostics) && isZWSchema(root) && getZWSchemaName(root).toUpperCase() === name.toUpperCase())?.root ?? undefined;
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<TabKey>('create');
@@ -141,6 +203,8 @@ const App: React.FC = () => {
   const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
   const [newProjectName, setNewProjectName] = useState('');
   const [newProjectDescription, setNewProjectDescription] = useState('');
+  const [vocabularyName, setVocabularyName] = useState('');
+  const [vocabularyValuesText, setVocabularyValuesText] = useState(''); // One value per line or comma-separated
 
   // Create Tab State
   const [templateName, setTemplateName] = useState('');
@@ -149,12 +213,18 @@ const App: React.FC = () => {
   const [schemaComments, setSchemaComments] = useState<ZWSchemaComment[]>([]);
   const [newCommentText, setNewCommentText] = useState('');
   const [currentSchemaNlOrigin, setCurrentSchemaNlOrigin] = useState<string | undefined>(undefined);
+  const [loadedSchemaDefinition, setLoadedSchemaDefinition] = useState<string | null>(null); // The template as last loaded or saved: the base when merging
+  const [pendingMerge, setPendingMerge] = useState<{ base: string; theirs: string } | null>(null); // Set while a save waits for conflicts to be resolved
 
 
   const [nlScenario, setNlScenario] = useState('');
   const [generatedZWPacket, setGeneratedZWPacket] = useState('');
   const [refinementSuggestion, setRefinementSuggestion] = useState('');
+  const [preRefinePacket, setPreRefinePacket] = useState<string | null>(null); // The packet before the last refinement, for the diff view
   const [isGenerating, setIsGenerating] = useState(false);
+  const [liveZwDocument, setLiveZwDocument] = useState<ZWDocument | null>(null); // Parsed while a generation streams in
+  const [stopOnStructureErrors, setStopOnStructureErrors] = useState(true);
+  const generationAbortRef = useRef<AbortController | null>(null);
   const [isNarrativeFocusEnabled, setIsNarrativeFocusEnabled] = useState(true);
 
   const [selectedOllamaModel, setSelectedOllamaModel] = useState('dolphin-mistral:latest');
@@ -172,12 +242,33 @@ const App: React.FC = () => {
   // Validation Tab State
   const [zwToValidate, setZwToValidate] = useState('');
   const [validationFeedback, setValidationFeedback] = useState<ValidationFeedback[]>([]);
+  const [strictScalarTypes, setStrictScalarTypes] = useState(false);
+  const [compareSchemaId, setCompareSchemaId] = useState('');
+  const [migratedZw, setMigratedZw] = useState<string | null>(null); // Upgraded packets awaiting review
 
   // Visualize Tab State
   const [zwToVisualize, setZwToVisualize] = useState('');
   const [jsonToConvertInput, setJsonToConvertInput] = useState('');
   const [jsonRootZwTypeInput, setJsonRootZwTypeInput] = useState('ZW-FROM-JSON');
+  const [jsonCompactArrays, setJsonCompactArrays] = useState(false);
+  const [jsonIndentStyle, setJsonIndentStyle] = useState<'2' | '4' | 'tab'>('2');
   const [visualizedZwAsJsonString, setVisualizedZwAsJsonString] = useState('');
+  const [zwQueryPath, setZwQueryPath] = useState('');
+  const [zwDeltaInput, setZwDeltaInput] = useState('');
+  const [zwDeltaFeedback, setZwDeltaFeedback] = useState<ValidationFeedback | null>(null);
+
+  // Parsed once, so that query matches are the very elements the visualizer renders.
+  const visualizedDocument = useMemo(() => parseZWDocument(zwToVisualize), [zwToVisualize]);
+  const zwQueryResult = useMemo((): { matches: Map<ZWNode | ZWListItem, string>; error?: string } => {
+    if (!zwQueryPath.trim()) return { matches: new Map() };
+    try {
+      const matches = visualizedDocument.packets.flatMap(packet => (packet.root ? queryZW(packet.root, zwQueryPath) : []));
+      return { matches: new Map(matches.map(element => [element, '#d6eaf8'])) };
+    } catch (error) {
+      if (error instanceof ZWQueryError) return { matches: new Map(), error: error.message };
+      throw error;
+    }
+  }, [visualizedDocument, zwQueryPath]);
 
 
   // Export Tab State
@@ -192,8 +283,24 @@ const App: React.FC = () => {
   const [activeSuggestionIndex, setActiveSuggestionIndex] = useState(0);
   const [autoCompletePosition, setAutoCompletePosition] = useState({ top: 0, left: 0 });
   const templateTextareaRef = useRef<HTMLTextAreaElement>(null);
+  const validateTextareaRef = useRef<HTMLTextAreaElement>(null);
+  const [templateCursorLine, setTemplateCursorLine] = useState<number | undefined>(undefined);
 
   const activeProject = projects.find(p => p.id === activeProjectId);
+  // The last refinement as a STATE-DELTA, when both packets parse and the change can be expressed as one.
+  const refinementDelta = useMemo((): string | null => {
+    if (preRefinePacket === null) return null;
+    const before = parseZWWithDiagnostics(preRefinePacket);
+    const after = parseZWWithDiagnostics(generatedZWPacket);
+    if (!before.root || !after.root || hasParseErrors(before.diagnostics) || hasParseErrors(after.diagnostics)) return null;
+    try {
+      return stringifyZW(createZWPatch(before.root, after.root));
+    } catch (error) {
+      if (error instanceof ZWPatchError) return null;
+      throw error;
+    }
+  }, [preRefinePacket, generatedZWPacket]);
+  const compareSchema = activeProject?.schemas.find(schema => schema.id === compareSchemaId);
 
   // --- Utility Functions ---
   const generateId = () => `id_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
@@ -280,6 +387,38 @@ const App: React.FC = () => {
     handleNewTemplate();
   };
 
+  // --- Controlled Vocabularies (Projects Tab) ---
+  const updateActiveProjectVocabularies = (update: (vocabularies: ZWVocabulary[]) => ZWVocabulary[]) => {
+    setProjects(prevProjects => prevProjects.map(p => (p.id === activeProjectId ? { ...p, vocabularies: update(p.vocabularies ?? []) } : p)));
+  };
+
+  // Adds the vocabulary, or replaces the values of the one with the same name.
+  const handleSaveVocabulary = () => {
+    const name = vocabularyName.trim().toUpperCase().replace(/\s+/g, '_');
+    const values = parseZWVocabularyValues(vocabularyValuesText);
+    if (!activeProject || !name || values.length === 0) {
+      alert('A vocabulary needs a name and at least one value.');
+      return;
+    }
+    updateActiveProjectVocabularies(vocabularies =>
+      findZWVocabulary(vocabularies, name)
+        ? vocabularies.map(v => (v.name.toUpperCase() === name ? { name, values } : v))
+        : [...vocabularies, { name, values }]
+    );
+    setVocabularyName('');
+    setVocabularyValuesText('');
+  };
+
+  const handleEditVocabulary = (vocabulary: ZWVocabulary) => {
+    setVocabularyName(vocabulary.name);
+    setVocabularyValuesText(vocabulary.values.join('\n'));
+  };
+
+  const handleDeleteVocabulary = (name: string) => {
+    if (!window.confirm(`Delete the vocabulary ${name}? Schema fields that use it will no longer be checked against it.`)) return;
+    updateActiveProjectVocabularies(vocabularies => vocabularies.filter(v => v.name !== name));
+  };
+
   const handleLoadExampleTemplates = () => {
     const exampleProjectName = "Example ZW Templates";
     let exampleProject = projects.find(p => p.name === exampleProjectName);
@@ -303,6 +442,12 @@ const App: React.FC = () => {
             definition: EXAMPLE_SIMPLE_TASK_ZW,
             nlOrigin: EXAMPLE_SIMPLE_TASK_NL,
             commentsText: "This template outlines a simple task or mission, useful for tracking objectives or procedural content generation in a game or simulation."
+        },
+        {
+            name: "Simple Task (Typed Schema)",
+            definition: EXAMPLE_SIMPLE_TASK_SCHEMA_ZW,
+            nlOrigin: EXAMPLE_SIMPLE_TASK_NL,
+            commentsText: "A typed schema for ZW-SIMPLE-TASK packets: each field has a type, and required fields, enum values and length limits are enforced by the validator."
         }
     ];
     
@@ -355,7 +500,8 @@ const App: React.FC = () => {
                     const schemaToLoad = updatedSchemas.find(s => s.name === firstExampleSchemaDetails.name);
                     if(schemaToLoad) handleLoadSchema(schemaToLoad);
                 }
-                return { ...p, schemas: updatedSchemas };
+                const vocabularies = [...(p.vocabularies ?? []), ...EXAMPLE_VOCABULARIES.filter(v => !findZWVocabulary(p.vocabularies ?? [], v.name))];
+                return { ...p, schemas: updatedSchemas, vocabularies };
             }
             return p;
         });
@@ -370,6 +516,24 @@ const App: React.FC = () => {
     setTemplateIdToEdit(null);
     setSchemaComments([]);
     setCurrentSchemaNlOrigin(undefined);
+    setLoadedSchemaDefinition(null);
+    setPendingMerge(null);
+  };
+
+  // The stored definition of a schema, which another window may have saved since it was loaded here.
+  const readStoredSchemaDefinition = (projectId: string, schemaId: string): string | undefined => {
+    try {
+      const storedProjects: Project[] = JSON.parse(localStorage.getItem(LOCAL_STORAGE_PROJECTS_KEY) ?? '[]');
+      return storedProjects.find(p => p.id === projectId)?.schemas.find(s => s.id === schemaId)?.definition;
+    } catch {
+      return undefined;
+    }
+  };
+
+  // A template as a single packet, or null when it does not parse cleanly into one.
+  const parseSinglePacket = (definition: string): ZWNode | null => {
+    const { packets, diagnostics } = parseZWDocument(definition);
+    return packets.length === 1 && !hasParseErrors(diagnostics) ? packets[0].root : null;
   };
 
   const handleSaveSchemaToProject = () => {
@@ -386,19 +550,45 @@ const App: React.FC = () => {
       return;
     }
 
+    const storedDefinition = templateIdToEdit && activeProjectId ? readStoredSchemaDefinition(activeProjectId, templateIdToEdit) : undefined;
+    if (storedDefinition !== undefined && loadedSchemaDefinition !== null && storedDefinition !== loadedSchemaDefinition && storedDefinition !== templateDefinition) {
+      // Saved elsewhere since it was loaded here: merge both edits instead of overwriting theirs.
+      const base = parseSinglePacket(loadedSchemaDefinition);
+      const ours = parseSinglePacket(templateDefinition);
+      const theirs = parseSinglePacket(storedDefinition);
+      if (base && ours && theirs) {
+        const { merged, conflicts } = mergeZW(base, ours, theirs);
+        if (conflicts.length > 0) {
+          setPendingMerge({ base: loadedSchemaDefinition, theirs: storedDefinition });
+          return;
+        }
+        const mergedDefinition = stringifyZW(merged);
+        setTemplateDefinition(mergedDefinition);
+        saveSchemaDefinition(mergedDefinition);
+        return;
+      }
+      if (!window.confirm('This template was changed in another window since it was loaded, and the two versions cannot be merged because one of them does not parse as a single packet. Overwrite the other changes?')) {
+        return;
+      }
+    }
+    saveSchemaDefinition(templateDefinition);
+  };
+
+  const saveSchemaDefinition = (definition: string) => {
+    if (!activeProject) return;
     setProjects(prevProjects =>
       prevProjects.map(p => {
         if (p.id === activeProjectId) {
           let updatedSchemas;
           if (templateIdToEdit) { // Editing existing schema
             updatedSchemas = p.schemas.map(s =>
-              s.id === templateIdToEdit ? { ...s, name: templateName, definition: templateDefinition, comments: schemaComments, nlOrigin: currentSchemaNlOrigin } : s
+              s.id === templateIdToEdit ? { ...s, name: templateName, definition, comments: schemaComments, nlOrigin: currentSchemaNlOrigin } : s
             );
           } else { // Saving new schema
             const newSchema: ZWSchemaDefinition = {
               id: generateId(),
               name: templateName,
-              definition: templateDefinition,
+              definition,
               comments: schemaComments,
               nlOrigin: currentSchemaNlOrigin // Future: Allow user to set this
             };
@@ -410,15 +600,52 @@ const App: React.FC = () => {
         return p;
       })
     );
+    setLoadedSchemaDefinition(definition);
+    setPendingMerge(null);
     alert(`Template "${templateName}" saved to project "${activeProject.name}".`);
   };
 
+  // Infers a typed schema from the packets in `text` and adds it to the active project.
+  const handleInferSchema = (text: string) => {
+    if (!activeProject) {
+      alert('Please select or create a project first.');
+      return;
+    }
+    const { packets, diagnostics } = parseZWDocument(text);
+    const roots = packets.map(packet => packet.root).filter((root): root is ZWNode => root !== null);
+    if (hasParseErrors(diagnostics) || roots.length === 0) {
+      alert('Cannot infer a schema until the packets parse without errors.');
+      return;
+    }
+    let schema: ZWSchema;
+    try {
+      schema = inferZWSchema(roots);
+    } catch (error) {
+      if (!(error instanceof ZWSchemaError)) throw error;
+      alert(error.message);
+      return;
+    }
+    const takenNames = activeProject.schemas.map(s => s.name);
+    let name = `${schema.target} (inferred)`;
+    for (let n = 2; takenNames.includes(name); n++) name = `${schema.target} (inferred ${n})`;
+    const newSchema: ZWSchemaDefinition = {
+      id: generateId(),
+      name,
+      definition: stringifyZW(createZWSchemaPacket(schema)),
+      comments: [{ id: generateId(), text: `Inferred from ${roots.length} packet(s).`, timestamp: new Date().toISOString() }],
+    };
+    setProjects(prevProjects => prevProjects.map(p => (p.id === activeProjectId ? { ...p, schemas: [...p.schemas, newSchema] } : p)));
+    alert(`Schema "${name}" inferred from ${roots.length} packet(s) and saved to project "${activeProject.name}".`);
+  };
+
   const handleLoadSchema = (schema: ZWSchemaDefinition) => {
     setTemplateName(schema.name);
     setTemplateDefinition(schema.definition);
     setTemplateIdToEdit(schema.id);
     setSchemaComments(schema.comments || []);
     setCurrentSchemaNlOrigin(schema.nlOrigin);
+    setLoadedSchemaDefinition(schema.definition);
+    setPendingMerge(null);
     setActiveTab('create'); // Switch to create tab if not already there
   };
 
@@ -458,6 +685,51 @@ const App: React.FC = () => {
 
 
   // --- AI Service Interaction ---
+  // The AI cannot look up the schemas a typed schema extends or embeds, so those are
+  // given to it composed; every other template is passed on as written.
+  const getPromptDefinition = (schema: ZWSchemaDefinition): string => {
+    const { root, diagnostics } = parseZWWithDiagnostics(schema.definition);
+    if (!root || hasParseErrors(diagnostics) || !isZWSchema(root)) return schema.definition;
+    let composed = false;
+    try {
+      const resolved = parseZWSchema(root, name => {
+        composed = true;
+        return resolveProjectSchema(name);
+      });
+      return composed ? stringifyZW(createZWSchemaPacket(resolved)) : schema.definition;
+    } catch (error) {
+      if (!(error instanceof ZWSchemaError)) throw error;
+      return schema.definition;
+    }
+  };
+
+  // The project's controlled vocabularies, each with the template fields that use it, so
+  // generated packets keep to the allowed values. Empty when the project has none.
+  const getVocabularyPrompt = (): string => {
+    const vocabularies = activeProject?.vocabularies ?? [];
+    if (vocabularies.length === 0) return '';
+    const usedBy = new Map<string, string[]>();
+    parsedProjectSchemas.forEach(({ root, diagnostics }) => {
+      if (!root || hasParseErrors(diagnostics) || !isZWSchema(root)) return;
+      try {
+        const schema = readProjectSchema(root);
+        listZWSchemaFields(schema).forEach(({ path, field }) => {
+          if (!field.vocabulary || !schema.target) return;
+          const name = field.vocabulary.toUpperCase();
+          usedBy.set(name, [...(usedBy.get(name) ?? []), `${schema.target} ${path}`]);
+        });
+      } catch (error) {
+        if (!(error instanceof ZWSchemaError)) throw error;
+      }
+    });
+    let prompt = '\nControlled vocabularies of this project. Fields that use one must take one of its values exactly as written:\n';
+    vocabularies.forEach(vocabulary => {
+      const fields = usedBy.get(vocabulary.name.toUpperCase());
+      prompt += `- ${vocabulary.name}${fields ? ` (used by ${fields.join(', ')})` : ''}: ${vocabulary.values.join(', ')}\n`;
+    });
+    return prompt;
+  };
+
   const getNarrativeFocusPrompt = (scenario: string, projectTemplates?: ZWSchemaDefinition[]) => {
     let prompt = `You are an expert in narrative design and game development, specializing in the ZW (Ziegelwagga) consciousness pattern language.
 The user wants to generate a ZW packet for the following scenario:
@@ -486,12 +758,13 @@ Here are the available project templates (use the ZW Type as the primary key, e.
 
     if (projectTemplates && projectTemplates.length > 0) {
       projectTemplates.forEach(schema => {
-        prompt += `\nSchema Name: ${schema.name}\n${schema.definition}\n---\n`;
+        prompt += `\nSchema Name: ${schema.name}\n${getPromptDefinition(schema)}\n---\n`;
       });
       prompt += "\nIf one of these project templates is a better fit for the user's scenario, please use that ZW Type and structure instead of ZW-NARRATIVE-SCENE. Adapt the scenario to the chosen template's fields.\n";
     } else {
       prompt += "\nNo specific project templates provided. Use the ZW-NARRATIVE-SCENE structure as described above.\n";
     }
+    prompt += getVocabularyPrompt();
 
     prompt += `
 Example of ZW-NARRATIVE-SCENE structure:
@@ -555,6 +828,45 @@ The ZW packet should be well-formed and adhere to the ZW syntax (indented key-va
     return prompt;
   };
 
+  // Streams a generation into the preview and parses it as it arrives. When enabled, the
+  // generation is stopped at the first parse error; the text received so far is kept.
+  const streamZwGeneration = async (service: SimpleAIService, prompt: string): Promise<{ text: string; stoppedReason?: string }> => {
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    let received = '';
+    let stoppedReason: string | undefined;
+    const streamParser = createZWStreamParser(undefined, {
+      onDiagnostic: diagnostic => {
+        if (stopOnStructureErrors && diagnostic.severity === 'error' && !stoppedReason) {
+          stoppedReason = formatZWDiagnostic(diagnostic);
+          controller.abort();
+        }
+      },
+    });
+    setLiveZwDocument(streamParser.snapshot());
+    try {
+      const text = await service.generateTextStream(prompt, chunk => {
+        received += chunk;
+        streamParser.write(chunk);
+        setGeneratedZWPacket(received);
+        setLiveZwDocument(streamParser.snapshot());
+      }, selectedOllamaModel, controller.signal);
+      return { text };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return { text: received, stoppedReason: stoppedReason ?? 'Stopped by user.' };
+      }
+      throw error;
+    } finally {
+      generationAbortRef.current = null;
+      setLiveZwDocument(null);
+    }
+  };
+
+  const handleStopGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
   const handleGenerateZWFromNL = async () => {
     if (!aiService) {
       alert("AI service not initialized. Please configure your AI provider in the settings.");
@@ -566,6 +878,7 @@ The ZW packet should be well-formed and adhere to the ZW syntax (indented key-va
     }
     setIsGenerating(true);
     setGeneratedZWPacket('');
+    setPreRefinePacket(null);
     setValidationFeedback([]);
 
     let prompt = "";
@@ -583,17 +896,21 @@ Scenario: "${nlScenario}"
         if (activeProject && activeProject.schemas.length > 0) {
             prompt += "\nAvailable Project Templates (use the ZW Type as the primary key):\n";
             activeProject.schemas.forEach(schema => {
-                prompt += `\nSchema Name: ${schema.name}\n${schema.definition}\n---\n`;
+                prompt += `\nSchema Name: ${schema.name}\n${getPromptDefinition(schema)}\n---\n`;
             });
         } else {
             prompt += "\nNo specific project templates provided. Infer a suitable ZW structure and start the packet with 'ZW-INFERRED-DATA:' on its own line.\n";
         }
+        prompt += getVocabularyPrompt();
     }
 
 
     try {
-      const text = await aiService.generateText(prompt, selectedOllamaModel);
+      const { text, stoppedReason } = await streamZwGeneration(aiService, prompt);
       setGeneratedZWPacket(text);
+      if (stoppedReason) {
+        setValidationFeedback([{ type: 'warning', message: `Generation stopped early: ${stoppedReason}` }]);
+      }
       // Automatically validate the generated packet
       validateZwContent(text, 'Generated Packet Validation');
     } catch (error) {
@@ -631,15 +948,21 @@ Please apply the suggestion and return the refined ZW packet.
 If the suggestion is unclear or impossible to apply directly to ZW structure, explain why in comments within the ZW packet itself if possible, or try your best to interpret the user's intent.
 Ensure the refined packet is well-formed.
 Generate ONLY the refined ZW packet.
-`;
+${getVocabularyPrompt()}`;
+    const originalPacket = generatedZWPacket;
     try {
-      const text = await aiService.generateText(prompt, selectedOllamaModel);
+      const { text, stoppedReason } = await streamZwGeneration(aiService, prompt);
       setGeneratedZWPacket(text);
+      setPreRefinePacket(originalPacket);
       setRefinementSuggestion(''); // Clear suggestion after use
+      if (stoppedReason) {
+        setValidationFeedback([{ type: 'warning', message: `Refinement stopped early: ${stoppedReason}` }]);
+      }
       validateZwContent(text, 'Refined Packet Validation');
     } catch (error) {
       console.error('Error refining ZW:', error);
       alert(`Error refining ZW: ${error instanceof Error ? error.message : String(error)}`);
+      setPreRefinePacket(null);
       setGeneratedZWPacket(`# Error refining ZW: ${generatedZWPacket}\n# Refinement failed: ${error instanceof Error ? error.message : String(error)}`);
     } finally {
       setIsGenerating(false);
@@ -647,66 +970,183 @@ Generate ONLY the refined ZW packet.
   };
 
   // --- Validation ---
-  const validateZwContent = (content: string, contextLabel: string = "Validation"): ZWNode | null => {
-    const parsed = parseZW(content);
-    const newFeedback: ValidationFeedback[] = [];
+  // The active project's schema definitions, parsed once each time they change: lookups
+  // run on every keystroke for suggestions. Typed schemas are also read then, with the
+  // schemas they extend or embed, into `read` (or the ZWSchemaError reading them threw).
+  const parsedProjectSchemas = useMemo((): Array<{ schema: ZWSchemaDefinition; root: ZWNode | null; diagnostics: ZWDiagnostic[]; read?: ZWSchema | ZWSchemaError }> => {
+    const parsed = (activeProject?.schemas ?? []).map(schema => ({ schema, ...parseZWWithDiagnostics(schema.definition) }));
+    const resolve = (name: string): ZWNode | undefined => findNamedSchema(parsed, name);
+    const read = (root: ZWNode): ZWSchema | ZWSchemaError => {
+      try {
+        return parseZWSchema(root, resolve);
+      } catch (error) {
+        if (!(error instanceof ZWSchemaError)) throw error;
+        return error;
+      }
+    };
+    return parsed.map(entry => (entry.root && isZWSchema(entry.root) ? { ...entry, read: read(entry.root) } : entry));
+  }, [activeProject?.schemas]);
+
+  // The active project's schema for a packet type: a typed ZW-SCHEMA naming it as TARGET,
+  // or else an example packet of that type.
+  const findProjectSchema = (packetType: string): { schema: ZWSchemaDefinition; root: ZWNode; diagnostics: ZWDiagnostic[] } | undefined => {
+    const candidates = parsedProjectSchemas.flatMap(({ schema, root, diagnostics }) =>
+      root && getZWSchemaTarget(root).toUpperCase() === packetType.toUpperCase() ? [{ schema, root, diagnostics }] : []);
+    return candidates.find(candidate => isZWSchema(candidate.root)) ?? candidates[0];
+  };
 
-    if (!content.trim()) {
-      newFeedback.push({ type: 'info', message: `${contextLabel}: No content to validate.` });
-      setValidationFeedback(prev => [...prev, ...newFeedback]); // Append new feedback
-      return null;
+  // Looks up the typed schema that EXTENDS or a field type names, by its NAME or TARGET.
+  const resolveProjectSchema = (name: string): ZWNode | undefined => findNamedSchema(parsedProjectSchemas, name);
+
+  // The typed project schema read from `root`, one of parsedProjectSchemas. Throws
+  // ZWSchemaError like parseZWSchema does.
+  const readProjectSchema = (root: ZWNode): ZWSchema => {
+    const read = parsedProjectSchemas.find(entry => entry.root === root)?.read ?? parseZWSchema(root, resolveProjectSchema);
+    if (read instanceof ZWSchemaError) throw read;
+    return read;
+  };
+
+  const resolveProjectVocabulary = (name: string): string[] | undefined =>
+    activeProject ? findZWVocabulary(activeProject.vocabularies ?? [], name)?.values : undefined;
+
+  // Checks a packet against a typed schema, or against the structure of an example packet;
+  // departures from an example are only warnings. `source` is the validated text, which
+  // the findings' locations refer to.
+  const validateAgainstSchema = (parsed: ZWNode, schemaRoot: ZWNode, schemaName: string, source: string): ValidationFeedback[] => {
+    const typed = isZWSchema(schemaRoot);
+    let schema: ZWSchema;
+    try {
+      schema = typed ? readProjectSchema(schemaRoot) : getZWExampleSchema(schemaRoot);
+    } catch (error) {
+      if (!(error instanceof ZWSchemaError)) throw error;
+      return [{ type: 'warning', message: `Schema "${schemaName}" declares its fields incorrectly, so the packet was not checked against it.`, details: [error.message] }];
+    }
+    const issues = validateZWSchema(parsed, schema, resolveProjectVocabulary, strictScalarTypes);
+    const mismatches = issues.filter(issue => issue.severity === 'error');
+    const undeclared = issues.filter(issue => issue.severity === 'warning');
+    const located = (group: ZWSchemaIssue[]) => ({ details: group.map(formatZWSchemaIssue), locations: group.map(issue => issue.span), source });
+    const feedback: ValidationFeedback[] = [];
+    const missingVocabularies = [...new Set(listZWSchemaFields(schema).map(({ field }) => field.vocabulary))]
+      .filter((name): name is string => name !== undefined && !resolveProjectVocabulary(name));
+    if (missingVocabularies.length > 0) {
+      feedback.push({ type: 'warning', message: `Schema "${schemaName}" uses vocabularies this project does not define, so those fields were not checked:`, details: missingVocabularies });
     }
+    if (mismatches.length > 0) {
+      feedback.push(typed
+        ? { type: 'error', message: `${mismatches.length} field(s) do not match schema "${schemaName}":`, ...located(mismatches) }
+        : { type: 'warning', message: `${mismatches.length} difference(s) from the structure of schema "${schemaName}":`, ...located(mismatches) });
+    }
+    if (undeclared.length > 0) {
+      feedback.push({ type: 'info', message: `Keys not in schema "${schemaName}" (may be intentional):`, ...located(undeclared) });
+    }
+    if (mismatches.length === 0) {
+      feedback.push({ type: 'success', message: `Packet matches schema "${schemaName}".` });
+    }
+    return feedback;
+  };
 
-    if (!parsed) {
-      newFeedback.push({ type: 'error', message: `${contextLabel}: Content could not be parsed. Is it empty or malformed?` });
-    } else if (parsed.key.startsWith('Error:')) {
-      newFeedback.push({ type: 'error', message: `${contextLabel}: Parsing Error - ${parsed.key}`, details: typeof parsed.value === 'string' ? [parsed.value] : undefined });
-    } else {
+  // Checks one packet: its parser diagnostics first, then its fields against the matching project schema.
+  const validatePacket = (parsed: ZWNode, diagnostics: ZWDiagnostic[], contextLabel: string, source: string): ValidationFeedback[] => {
+    const newFeedback: ValidationFeedback[] = [];
+    // Report every parser diagnostic in one pass, grouped by severity.
+    const errors = diagnostics.filter(d => d.severity === 'error');
+    const warnings = diagnostics.filter(d => d.severity === 'warning');
+    const notes = diagnostics.filter(d => d.severity === 'info');
+    if (errors.length > 0) {
+      newFeedback.push({ type: 'error', message: `${contextLabel}: ${errors.length} parsing error(s) found.`, details: errors.map(formatZWDiagnostic) });
+    }
+    if (warnings.length > 0) {
+      newFeedback.push({ type: 'warning', message: `${contextLabel}: ${warnings.length} parsing warning(s) found.`, details: warnings.map(formatZWDiagnostic) });
+    }
+    if (notes.length > 0) {
+      newFeedback.push({ type: 'info', message: `${contextLabel}: Parser notes.`, details: notes.map(formatZWDiagnostic) });
+    }
+    if (errors.length === 0) {
       newFeedback.push({ type: 'success', message: `${contextLabel}: ZW syntax appears valid. Root Type: ${parsed.key}` });
+    }
 
-      // Project-specific validation
-      if (activeProject && activeProject.schemas.length > 0) {
-        const matchingSchema = activeProject.schemas.find(s => {
-          const schemaRootMatch = s.definition.match(/^([A-Z0-9_-]+(?:-[A-Z0-9_-]+)*):/i);
-          return schemaRootMatch ? schemaRootMatch[1] === parsed.key : false;
-        });
-
-        if (matchingSchema) {
-          newFeedback.push({ type: 'info', message: `Root type "${parsed.key}" matches schema "${matchingSchema.name}" in project "${activeProject.name}".` });
-          
-          const schemaParsed = parseZW(matchingSchema.definition);
-          if (schemaParsed && !schemaParsed.key.startsWith('Error:') && Array.isArray(parsed.value) && Array.isArray(schemaParsed.value)) {
-            const inputKeys = (parsed.value as Array<ZWNode | ZWListItem>)
-                .filter((item): item is ZWNode => 'key' in item && item.key !== undefined)
-                .map(node => node.key);
-
-            const schemaKeys = (schemaParsed.value as Array<ZWNode | ZWListItem>)
-                .filter((item): item is ZWNode => 'key' in item && item.key !== undefined)
-                .map(node => node.key);
-            
-            const missingKeys = schemaKeys.filter(key => !inputKeys.includes(key));
-            const extraKeys = inputKeys.filter(key => !schemaKeys.includes(key));
+    // Project-specific validation (also run on a best-effort tree, as long as it has a root type)
+    if (!parsed.key) {
+      newFeedback.push({ type: 'info', message: `${contextLabel}: Schema comparison skipped because the packet has no valid root type.` });
+    } else if (activeProject && activeProject.schemas.length > 0) {
+      const match = findProjectSchema(parsed.key);
 
-            if (missingKeys.length > 0) {
-              newFeedback.push({ type: 'warning', message: `Potential Missing Keys compared to schema "${matchingSchema.name}":`, details: missingKeys });
-            }
-            if (extraKeys.length > 0) {
-              newFeedback.push({ type: 'info', message: `Additional Keys not in schema "${matchingSchema.name}" (may be intentional):`, details: extraKeys });
-            }
-            if (missingKeys.length === 0 && extraKeys.length === 0) {
-                newFeedback.push({ type: 'success', message: `Top-level keys match schema "${matchingSchema.name}".` });
-            }
+      if (match) {
+        const { schema: matchingSchema, root: schemaParsed, diagnostics: schemaDiagnostics } = match;
+        newFeedback.push({ type: 'info', message: `Root type "${parsed.key}" matches schema "${matchingSchema.name}" in project "${activeProject.name}".` });
 
-          } else if (schemaParsed && schemaParsed.key.startsWith('Error:')) {
-            newFeedback.push({ type: 'warning', message: `Could not parse matching schema "${matchingSchema.name}" for detailed key comparison. Error: ${schemaParsed.key}` });
-          }
+        if (hasParseErrors(schemaDiagnostics)) {
+          newFeedback.push({ type: 'warning', message: `Could not parse matching schema "${matchingSchema.name}" for detailed key comparison.`, details: schemaDiagnostics.map(formatZWDiagnostic) });
         } else {
-          newFeedback.push({ type: 'warning', message: `Root type "${parsed.key}" does not match any schema root types in project "${activeProject.name}".` });
+          newFeedback.push(...validateAgainstSchema(parsed, schemaParsed, matchingSchema.name, source));
         }
       } else {
-        newFeedback.push({ type: 'info', message: `${contextLabel}: No active project schemas to compare against.` });
+        newFeedback.push({ type: 'warning', message: `Root type "${parsed.key}" does not match any schema root types in project "${activeProject.name}".` });
+      }
+    } else {
+      newFeedback.push({ type: 'info', message: `${contextLabel}: No active project schemas to compare against.` });
+    }
+    return newFeedback;
+  };
+
+  // Checks the links between the packets validated together (unique IDs, references that
+  // resolve, quests that are completed) wherever their typed schemas declare id and ref fields.
+  const checkPacketReferences = (roots: ZWNode[], source: string): ValidationFeedback[] => {
+    const checked = roots.flatMap(packet => {
+      const match = findProjectSchema(packet.key);
+      if (!match || !isZWSchema(match.root)) return [];
+      try {
+        return [{ packet, schema: readProjectSchema(match.root) }];
+      } catch (error) {
+        if (!(error instanceof ZWSchemaError)) throw error;
+        return []; // Already reported by the packet's own validation
       }
+    });
+    if (!checked.some(({ schema }) => listZWSchemaFields(schema).some(({ field }) => field.reference))) return [];
+    const issues = checkZWIntegrity(checked);
+    if (issues.length === 0) {
+      return [{ type: 'success', message: `References: IDs are unique and every reference resolves across ${checked.length} packet(s).` }];
     }
+    // One detail per occurrence, so that each declaration of a duplicate and each dangling
+    // ref can be located on its own.
+    const group = (kind: ZWIntegrityIssueKind, type: ValidationFeedback['type'], message: string): ValidationFeedback[] => {
+      const found = issues.filter(issue => issue.kind === kind);
+      const occurrences = found.flatMap(issue => issue.occurrences.map(occurrence => ({ issue, occurrence })));
+      return found.length === 0 ? [] : [{
+        type,
+        message: `References: ${found.length} ${message}`,
+        details: occurrences.map(({ issue, occurrence }) => `${issue.message}: ${formatZWReferenceOccurrence(occurrence)}`),
+        locations: occurrences.map(({ occurrence }) => occurrence.span),
+        source,
+      }];
+    };
+    return [
+      ...group('duplicate-id', 'error', 'duplicate ID(s):'),
+      ...group('dangling-reference', 'error', 'reference(s) to something never declared:'),
+      ...group('never-completed', 'warning', 'started but never completed:'),
+    ];
+  };
+
+  const validateZwContent = (content: string, contextLabel: string = "Validation"): ZWNode[] => {
+    const { packets } = parseZWDocument(content, { strict: strictScalarTypes });
+    const newFeedback: ValidationFeedback[] = [];
+
+    if (!content.trim()) {
+      newFeedback.push({ type: 'info', message: `${contextLabel}: No content to validate.` });
+      setValidationFeedback(prev => [...prev, ...newFeedback]); // Append new feedback
+      return [];
+    }
+
+    if (packets.length === 0) {
+      newFeedback.push({ type: 'error', message: `${contextLabel}: Content could not be parsed. Is it empty or malformed?` });
+    }
+    packets.forEach((packet, index) => {
+      if (!packet.root) return;
+      const packetLabel = packets.length > 1 ? `${contextLabel} (packet ${index + 1} of ${packets.length})` : contextLabel;
+      newFeedback.push(...validatePacket(packet.root, packet.diagnostics, packetLabel, content));
+    });
+    const roots = packets.map(packet => packet.root).filter((root): root is ZWNode => root !== null);
+    newFeedback.push(...checkPacketReferences(roots, content));
     // Append new feedback instead of overwriting, especially for auto-validation.
     // If this is a manual click, it might be better to clear first.
     if (contextLabel === 'User Input Validation' || contextLabel === 'JSON to ZW Conversion Validation') {
@@ -714,7 +1154,34 @@ Generate ONLY the refined ZW packet.
     } else {
         setValidationFeedback(prev => [...prev, ...newFeedback]); // Append for auto-validations
     }
-    return parsed;
+    return roots;
+  };
+
+  // --- Formatting ---
+  // Normalizes indentation, quoting and comment placement; refuses input with parse errors
+  // or doubtful indentation, since lines could be lost or nested differently.
+  const formatZwInput = (content: string): { text: string | null; errors: string[] } => {
+    const { text, diagnostics } = formatZW(content, { quoteStyle: 'minimal' });
+    const blocking = diagnostics.filter(d => d.severity === 'error' || d.code === 'odd-indentation' || d.code === 'mixed-indentation');
+    return { text, errors: blocking.map(formatZWDiagnostic) };
+  };
+
+  const handleFormatTemplate = () => {
+    const { text, errors } = formatZwInput(templateDefinition);
+    if (text === null) {
+      alert(`Cannot format the template until its parsing errors and indentation problems are fixed.\n${errors.join('\n')}`);
+      return;
+    }
+    setTemplateDefinition(text);
+  };
+
+  const handleFormatZwToValidate = () => {
+    const { text, errors } = formatZwInput(zwToValidate);
+    if (text === null) {
+      setValidationFeedback([{ type: 'error', message: 'Formatting: fix the parsing errors and indentation problems first.', details: errors }]);
+      return;
+    }
+    setZwToValidate(text);
   };
 
   const handleValidateZW = () => {
@@ -722,6 +1189,64 @@ Generate ONLY the refined ZW packet.
     validateZwContent(zwToValidate, 'User Input Validation');
   };
 
+  // Migrated packets are only offered for the text they were made from.
+  useEffect(() => {
+    setMigratedZw(null);
+  }, [zwToValidate]);
+
+  // Upgrades each packet to the version of its project schema. The result is offered for
+  // review rather than replacing the input, since some steps may not have applied. Only
+  // migrated packets are rewritten; the others keep their text as written.
+  const handleMigratePackets = () => {
+    const document = parseZWDocument(zwToValidate);
+    if (hasParseErrors(document.diagnostics)) {
+      setValidationFeedback([{ type: 'error', message: 'Migration: fix the parsing errors first.', details: document.diagnostics.filter(d => d.severity === 'error').map(formatZWDiagnostic) }]);
+      return;
+    }
+    const feedback: ValidationFeedback[] = [];
+    const indentation = detectZWIndentation(zwToValidate);
+    const edits: ZWTextEdit[] = [];
+    document.packets.forEach((packet, index) => {
+      if (!packet.root) return;
+      const label = document.packets.length > 1 ? `Packet ${index + 1} (${packet.root.key})` : packet.root.key;
+      const found = findProjectSchema(packet.root.key);
+      const unversioned = (): ValidationFeedback => ({ type: 'info', message: `${label}: no versioned schema in the project, left as is.` });
+      if (!found || !isZWSchema(found.root)) {
+        feedback.push(unversioned());
+        return;
+      }
+      try {
+        if (readProjectSchema(found.root).version === undefined) {
+          feedback.push(unversioned());
+          return;
+        }
+        const { result, version, migrated, issues } = migrateZW(packet.root, found.root, resolveProjectSchema);
+        const from = getZWPacketVersion(packet.root);
+        if (migrated) {
+          edits.push({ start: packet.span.start.offset, end: packet.span.end.offset, newText: stringifyZW(result, { indentWidth: indentation.width, useTabs: indentation.useTabs }) });
+        }
+        if (issues.length > 0) {
+          feedback.push({ type: 'warning', message: `${label}: ${migrated ? `migrated from version ${from} to ${version}, but` : 'not migrated;'} ${issues.length} issue(s) need attention:`, details: issues.map(formatZWMigrationIssue) });
+        } else {
+          feedback.push(migrated
+            ? { type: 'success', message: `${label}: migrated from version ${from} to ${version} using schema "${found.schema.name}".` }
+            : { type: 'info', message: `${label}: already at version ${version} of schema "${found.schema.name}".` });
+        }
+      } catch (error) {
+        if (!(error instanceof ZWMigrationError) && !(error instanceof ZWSchemaError)) throw error;
+        feedback.push({ type: 'error', message: `${label}: schema "${found.schema.name}" has invalid migrations.`, details: [error.message] });
+      }
+    });
+    setMigratedZw(edits.length > 0 ? applyZWEdits(zwToValidate, edits) : null);
+    setValidationFeedback(feedback);
+  };
+
+  const handleUseMigratedPackets = () => {
+    if (migratedZw === null) return;
+    setZwToValidate(migratedZw);
+    setMigratedZw(null);
+  };
+
   // --- JSON to ZW Conversion (Visualize Tab) ---
   const handleConvertJsonAndVisualize = () => {
     if (!jsonToConvertInput.trim()) {
@@ -729,7 +1254,11 @@ Generate ONLY the refined ZW packet.
       setValidationFeedback([]);
       return;
     }
-    const convertedZw = convertJsonToZwString(jsonToConvertInput, jsonRootZwTypeInput);
+    const convertedZw = convertJsonToZwString(jsonToConvertInput, jsonRootZwTypeInput, {
+      compactScalarArrays: jsonCompactArrays,
+      indentWidth: jsonIndentStyle === 'tab' ? undefined : Number(jsonIndentStyle),
+      useTabs: jsonIndentStyle === 'tab',
+    });
     setZwToVisualize(convertedZw);
     setValidationFeedback([]); // Clear previous validation
     validateZwContent(convertedZw, 'JSON to ZW Conversion Validation'); 
@@ -741,15 +1270,42 @@ Generate ONLY the refined ZW packet.
       setVisualizedZwAsJsonString('// No ZW content in the visualizer to convert.');
       return;
     }
-    const jsonObject = convertZwToJsonObject(zwToVisualize);
+    const { json: jsonObject, diagnostics } = convertZwToJson(zwToVisualize);
     if (jsonObject) {
       setVisualizedZwAsJsonString(JSON.stringify(jsonObject, null, 2));
+    } else if (diagnostics.length > 0) {
+      setVisualizedZwAsJsonString(`// Error: Could not convert ZW to JSON.\n${diagnostics.map(d => `// ${formatZWDiagnostic(d)}`).join('\n')}`);
     } else {
       setVisualizedZwAsJsonString('// Error: Could not convert ZW to JSON. Check console for ZW parsing errors or if the ZW structure does not represent a valid JSON object.');
     }
   };
 
 
+  // Applies the STATE-DELTA to the first packet of the visualized ZW, keeping any other packets.
+  const handleApplyDeltaToVisualized = () => {
+    const base = visualizedDocument.packets[0]?.root;
+    const { root: patch, diagnostics } = parseZWWithDiagnostics(zwDeltaInput);
+    if (!base || !patch || hasParseErrors(diagnostics)) {
+      setZwDeltaFeedback({ type: 'error', message: 'Both the visualized ZW and the delta need to parse.', details: diagnostics.map(formatZWDiagnostic) });
+      return;
+    }
+    try {
+      const { result, conflicts } = applyZWPatch(base, patch);
+      const packets = visualizedDocument.packets.map((packet, index) => (index === 0 ? { ...packet, root: result } : packet));
+      setZwToVisualize(stringifyZWDocument({ ...visualizedDocument, packets }));
+      setZwDeltaFeedback(conflicts.length === 0
+        ? { type: 'success', message: 'Delta applied.' }
+        : {
+            type: 'warning',
+            message: `Delta applied with ${conflicts.length} conflict(s); those operations were skipped.`,
+            details: conflicts.map(c => (c.op !== undefined ? `Operation ${c.op + 1} (line ${c.span?.start.line ?? '?'}): ${c.message}` : c.message)),
+          });
+    } catch (error) {
+      if (!(error instanceof ZWPatchError)) throw error;
+      setZwDeltaFeedback({ type: 'error', message: `Invalid delta: ${error.message}` });
+    }
+  };
+
   // --- Export ---
   const handleExportCurrentTemplate = () => {
     if (!templateDefinition.trim()) {
@@ -806,12 +1362,13 @@ Generate ONLY the refined ZW packet.
         alert('No template definition in the "Create" tab to export for Godot.');
         return;
     }
-    const parsedNode = parseZW(templateDefinition);
-    if (!parsedNode || parsedNode.key.startsWith('Error:')) {
-        alert(`Cannot export to Godot: ZW parsing failed. ${parsedNode?.key || ''} ${parsedNode?.value || ''}`);
+    // Every packet in the definition becomes its own GDScript variable.
+    const document = parseZWDocument(templateDefinition);
+    if (document.packets.length === 0 || hasParseErrors(document.diagnostics)) {
+        alert(`Cannot export to Godot: ZW parsing failed.\n${document.diagnostics.filter(d => d.severity === 'error').map(formatZWDiagnostic).join('\n')}`);
         return;
     }
-    const godotScript = convertZwToGodot(parsedNode);
+    const godotScript = convertZwDocumentToGodot(document);
     downloadFile(godotExportFilename || 'schema_export.gd', godotScript, 'text/gdscript');
   };
 
@@ -819,36 +1376,75 @@ Generate ONLY the refined ZW packet.
   const generateSuggestionsFromSchemas = (partialInput: string, rootPacketType: string): string[] => {
     if (!activeProject || !rootPacketType) return [];
 
-    const matchingSchema = activeProject.schemas.find(s => {
-        const schemaRoot = s.definition.match(/^([A-Z0-9_-]+(?:-[A-Z0-9_-]+)*):/i);
-        return schemaRoot ? schemaRoot[1].toUpperCase() === rootPacketType.toUpperCase() : false;
-    });
-
-    if (!matchingSchema) return [];
-
-    const parsedSchema = parseZW(matchingSchema.definition);
-    if (!parsedSchema || parsedSchema.key.startsWith('Error:') || !Array.isArray(parsedSchema.value)) {
+    const match = findProjectSchema(rootPacketType);
+    if (!match || hasParseErrors(match.diagnostics) || !Array.isArray(match.root.value)) {
         return [];
     }
-    
-    // Extract direct children keys/sections from the schema
-    const schemaElements = (parsedSchema.value as Array<ZWNode | ZWListItem>)
-        .map(item => {
-            if ('key' in item && item.key) { // ZWNode (key or section)
-                // If it's a section (value is array or undefined), suggest with colon. Else, just key with colon.
-                return Array.isArray(item.value) || item.value === undefined ? `${item.key}:` : `${item.key}:`;
-            }
-            // Add more sophisticated suggestions for list items if needed later
-            return null; 
-        })
-        .filter((name): name is string => name !== null);
 
+    let schemaElements: string[];
+    if (isZWSchema(match.root)) {
+        // A typed schema suggests the names of its top-level fields, inherited ones included.
+        try {
+            schemaElements = readProjectSchema(match.root).fields.map(field => `${field.name}:`);
+        } catch (error) {
+            if (!(error instanceof ZWSchemaError)) throw error;
+            return [];
+        }
+    } else {
+        // Extract direct children keys/sections from the schema
+        schemaElements = (match.root.value as Array<ZWNode | ZWListItem>)
+            .map(item => {
+                if (item.kind === 'node' && item.key) { // ZWNode (key or section)
+                    // If it's a section (value is array or undefined), suggest with colon. Else, just key with colon.
+                    return Array.isArray(item.value) || item.value === undefined ? `${item.key}:` : `${item.key}:`;
+                }
+                // Add more sophisticated suggestions for list items if needed later
+                return null; 
+            })
+            .filter((name): name is string => name !== null);
+    }
 
     return schemaElements
         .filter(name => name.toLowerCase().startsWith(partialInput.toLowerCase()) && name.toLowerCase() !== partialInput.toLowerCase())
         .map(name => name.toUpperCase()); // Suggest in uppercase for consistency
   };
 
+  // Offers vocabulary values where a value is being typed: after "KEY: " (also inside a list
+  // item) or in a "- " item of a list under "KEY:". `linesAbove` holds the lines before the
+  // current one. Null when the cursor is not in a value, so key suggestions apply instead.
+  const generateVocabularySuggestions = (partialInput: string, indentation: number, linesAbove: string[], rootPacketType: string): string[] | null => {
+    let key: string | undefined;
+    let lead: string;
+    const keyValue = partialInput.match(VALUE_KEY_REGEX);
+    const item = partialInput.match(/^(-\s+)(.*)$/);
+    if (keyValue) {
+      key = unquoteZWString(keyValue[2]);
+      lead = keyValue[1];
+    } else if (item) {
+      lead = item[1];
+      // The list's key is on the nearest line above that is indented less.
+      const parent = [...linesAbove].reverse().find(line => line.trim() !== '' && line.search(/\S/) < indentation);
+      const opening = parent?.match(OPENING_KEY_REGEX);
+      key = opening ? unquoteZWString(opening[1]) : undefined;
+    } else {
+      return null;
+    }
+    const match = key && findProjectSchema(rootPacketType);
+    if (!match || !isZWSchema(match.root)) return [];
+    let values: string[] = [];
+    try {
+      const field = listZWSchemaFields(readProjectSchema(match.root))
+        .find(({ field }) => field.name.toUpperCase() === key!.toUpperCase() && field.vocabulary !== undefined)?.field;
+      values = (field?.vocabulary && resolveProjectVocabulary(field.vocabulary)) || [];
+    } catch (error) {
+      if (!(error instanceof ZWSchemaError)) throw error;
+    }
+    const typed = partialInput.substring(lead.length).replace(/^["']/, '').toLowerCase();
+    return values
+      .filter(value => value.toLowerCase().startsWith(typed) && value.toLowerCase() !== typed)
+      .map(value => `${lead}${value}`);
+  };
+
   const updateSuggestions = () => {
     const textarea = templateTextareaRef.current;
     if (!textarea || !activeProject) {
@@ -896,7 +1492,9 @@ Generate ONLY the refined ZW packet.
     }
 
 
-    const suggestions = generateSuggestionsFromSchemas(partialInput, rootPacketType);
+    const linesAbove = textBeforeCursor.substring(0, currentLineStart).split('\n');
+    const suggestions = generateVocabularySuggestions(partialInput, currentIndentation, linesAbove, rootPacketType)
+      ?? generateSuggestionsFromSchemas(partialInput, rootPacketType);
 
     if (suggestions.length > 0 && partialInput.trim() !== '') {
       // Basic positioning: below the textarea. More precise positioning is complex.
@@ -913,6 +1511,28 @@ Generate ONLY the refined ZW packet.
   };
 
 
+  // --- Click-to-jump between the structure preview and the editor ---
+  const handleSelectTemplateSpan = (span: ZWSpan) => {
+    const textarea = templateTextareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(span.start.offset, span.end.offset);
+    setTemplateCursorLine(span.start.line);
+  };
+
+  // Selects what a validation finding points at, in the Validate tab's editor.
+  const handleLocateFeedback = (span: ZWSpan) => {
+    const textarea = validateTextareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(span.start.offset, span.end.offset);
+  };
+
+  const handleTemplateCursorMove = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const textarea = e.currentTarget;
+    setTemplateCursorLine(textarea.value.substring(0, textarea.selectionStart).split('\n').length);
+  };
+
   const handleTemplateChangeAndSuggest = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setTemplateDefinition(e.target.value);
     // Debounce or delay updateSuggestions if performance becomes an issue
@@ -1037,6 +1657,46 @@ Generate ONLY the refined ZW packet.
                 </ul>
               )}
             </section>
+            {activeProject && (
+              <section>
+                <h3>Controlled Vocabularies</h3>
+                <p style={{ fontSize: '0.9em', color: '#555' }}>
+                  Named lists of allowed values for "{activeProject.name}". A typed schema field refers to one with <code>VOCABULARY: NAME</code>; validation flags other values, autocomplete offers these, and AI prompts include them.
+                </p>
+                {(activeProject.vocabularies ?? []).length > 0 && (
+                  <ul style={{ listStyle: 'none', padding: 0 }}>
+                    {(activeProject.vocabularies ?? []).map(vocabulary => (
+                      <li key={vocabulary.name} style={{ marginBottom: '8px', padding: '8px', background: '#f9f9f9', border: '1px solid #ddd', borderRadius: '4px' }}>
+                        <strong>{vocabulary.name}</strong>: <span style={{ fontSize: '0.9em' }}>{vocabulary.values.join(', ')}</span>
+                        <div style={{ marginTop: '5px' }}>
+                          <button className="link-button" onClick={() => handleEditVocabulary(vocabulary)}>Edit</button>
+                          <button className="link-button" onClick={() => handleDeleteVocabulary(vocabulary.name)} style={{ marginLeft: '10px', color: '#e74c3c' }}>Delete</button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <input
+                  type="text"
+                  placeholder="Vocabulary Name (e.g., EMOTION_TAGS)"
+                  value={vocabularyName}
+                  onChange={(e) => setVocabularyName(e.target.value)}
+                  style={{ marginRight: '10px', padding: '8px', border: '1px solid #ccc', borderRadius: '4px', width: '300px' }}
+                  aria-label="Vocabulary name"
+                />
+                <textarea
+                  placeholder="Allowed values, one per line or comma-separated"
+                  value={vocabularyValuesText}
+                  onChange={(e) => setVocabularyValuesText(e.target.value)}
+                  rows={4}
+                  style={{ display: 'block', width: 'calc(100% - 22px)', padding: '10px', margin: '10px 0', border: '1px solid #ccc', borderRadius: '4px' }}
+                  aria-label="Vocabulary values"
+                />
+                <button className="action-button" onClick={handleSaveVocabulary} disabled={!vocabularyName.trim() || !vocabularyValuesText.trim()}>
+                  {findZWVocabulary(activeProject.vocabularies ?? [], vocabularyName.trim().replace(/\s+/g, '_')) ? 'Update Vocabulary' : 'Add Vocabulary'}
+                </button>
+              </section>
+            )}
           </div>
         );
       case 'create':
@@ -1158,6 +1818,7 @@ Generate ONLY the refined ZW packet.
                     onChange={handleTemplateChangeAndSuggest}
                     onKeyDown={handleTemplateKeyDown}
                     onClick={updateSuggestions} // Also update on click in case cursor moves without typing
+                    onSelect={handleTemplateCursorMove}
                     placeholder="Define your ZW template here (e.g., ZW-REQUEST:&#10;  ACTION: Login&#10;  USER: '{{username}}')"
                     aria-label="ZW Template Definition Editor"
                     disabled={!activeProject}
@@ -1177,12 +1838,24 @@ Generate ONLY the refined ZW packet.
                         </h3>
                         <ZWSyntaxHighlighter zwString={templateDefinition} />
                     </div>
+                    <div className="visual-preview-pane">
+                        <h3>Structure Preview</h3>
+                        <p style={{marginTop: 0, fontSize: '0.85em', color: '#7f8c8d'}}>Click an element to select it in the editor.</p>
+                        <ZWTemplateVisualizer
+                            templateDefinition={templateDefinition}
+                            onSelectSpan={handleSelectTemplateSpan}
+                            activeLine={templateCursorLine}
+                        />
+                    </div>
                     <div className="inspector-palette-pane">
                         <h3>Inspector / Palette</h3>
                         <p style={{color: '#7f8c8d'}}>Element inspector and quick-add palette coming soon!</p>
                     </div>
                 </div>
               </div>
+              <button className="action-button secondary" onClick={handleFormatTemplate} style={{ marginTop: '15px', marginRight: '10px' }} disabled={!activeProject || !templateDefinition.trim()}>
+                Format
+              </button>
               <button className="action-button" onClick={handleSaveSchemaToProject} style={{ marginTop: '15px' }} disabled={!activeProject || !templateName.trim() || !templateDefinition.trim()}>
                 {templateIdToEdit ? 'Save Changes to Template' : 'Save New Template to Project'}
               </button>
@@ -1191,6 +1864,24 @@ Generate ONLY the refined ZW packet.
                     Delete This Template
                 </button>
               )}
+              {pendingMerge && (
+                <div style={{ marginTop: '15px', padding: '15px', border: '1px solid #f39c12', borderRadius: '4px', background: '#fffaf0' }}>
+                  <h3 style={{ marginTop: 0 }}>Merge Needed</h3>
+                  <p style={{ fontSize: '0.9em' }}>This template was saved in another window after you loaded it. Edits to different keys and list items were combined; choose a version for each conflict below.</p>
+                  <ZWMergeView
+                    base={pendingMerge.base}
+                    ours={templateDefinition}
+                    theirs={pendingMerge.theirs}
+                    oursLabel="Your version"
+                    theirsLabel="Saved version"
+                    onAccept={merged => {
+                      setTemplateDefinition(merged);
+                      saveSchemaDefinition(merged);
+                    }}
+                    onCancel={() => setPendingMerge(null)}
+                  />
+                </div>
+              )}
             </section>
             
             <section>
@@ -1248,14 +1939,48 @@ Generate ONLY the refined ZW packet.
               <button className="action-button" onClick={handleGenerateZWFromNL} disabled={isGenerating || !nlScenario.trim() || !aiService}>
                 {isGenerating ? 'Generating...' : 'Generate ZW from NL'}
               </button>
+              {isGenerating && (
+                <button className="action-button secondary" onClick={handleStopGeneration} style={{ marginLeft: '10px' }}>Stop</button>
+              )}
+              <label style={{ marginLeft: '10px', fontSize: '0.9em' }}>
+                <input
+                  type="checkbox"
+                  checked={stopOnStructureErrors}
+                  onChange={(e) => setStopOnStructureErrors(e.target.checked)}
+                />
+                Stop generating when the packet structure breaks
+              </label>
 
               <h3>Generated ZW Packet Preview
                 <CopyButton textToCopy={generatedZWPacket} disabled={!generatedZWPacket.trim()} />
+                <button
+                  className="action-button secondary"
+                  onClick={() => handleInferSchema(generatedZWPacket)}
+                  disabled={isGenerating || !generatedZWPacket.trim() || generatedZWPacket.startsWith("# Error") || !activeProject}
+                  style={{ marginLeft: '10px' }}
+                  title="Save a typed schema that fits this packet to the active project"
+                >
+                  Infer Schema
+                </button>
               </h3>
               {isGenerating && <p>Generating ZW packet, please wait...</p>}
               <div className="generated-zw-output" aria-live="polite">
                 {generatedZWPacket || 'ZW packet will appear here...'}
               </div>
+              {(liveZwDocument || (generatedZWPacket && !generatedZWPacket.startsWith("# Error"))) && (
+                <div style={{ marginTop: '10px' }}>
+                  {/* While streaming, the visualizer shows the tree built so far instead of re-parsing the text. */}
+                  <ZWTemplateVisualizer templateDefinition={generatedZWPacket} document={liveZwDocument ?? undefined} />
+                </div>
+              )}
+              {!isGenerating && preRefinePacket !== null && generatedZWPacket && !generatedZWPacket.startsWith("# Error") && (
+                <div style={{ marginTop: '10px' }}>
+                  <h4>Changes from the Last Refinement
+                    {refinementDelta && <CopyButton textToCopy={refinementDelta} buttonText="Copy as STATE-DELTA" style={{ marginLeft: '10px' }} />}
+                  </h4>
+                  <ZWDiffView before={preRefinePacket} after={generatedZWPacket} beforeLabel="Before refinement" afterLabel="Refined" />
+                </div>
+              )}
 
               {generatedZWPacket && !generatedZWPacket.startsWith("# Error") && (
                 <>
@@ -1282,6 +2007,7 @@ Generate ONLY the refined ZW packet.
           <div>
             <h2>Validate ZW Content</h2>
             <textarea
+              ref={validateTextareaRef}
               value={zwToValidate}
               onChange={(e) => setZwToValidate(e.target.value)}
               placeholder="Paste ZW content here to validate..."
@@ -1290,6 +2016,39 @@ Generate ONLY the refined ZW packet.
               aria-label="ZW Content to Validate"
             />
             <button className="action-button" onClick={handleValidateZW}>Validate Against Project Vocabulary</button>
+            <button className="action-button secondary" onClick={handleFormatZwToValidate} disabled={!zwToValidate.trim()} style={{ marginLeft: '10px' }}>Format</button>
+            <button className="action-button secondary" onClick={() => handleInferSchema(zwToValidate)} disabled={!zwToValidate.trim() || !activeProject} style={{ marginLeft: '10px' }} title="Save a typed schema that fits the packets above to the active project">Infer Schema</button>
+            <button className="action-button secondary" onClick={handleMigratePackets} disabled={!zwToValidate.trim() || !activeProject} style={{ marginLeft: '10px' }} title="Upgrade the packets above to the current version of their project schemas">Migrate Packets</button>
+            <label style={{ marginLeft: '10px', fontSize: '0.9em' }}>
+              <input
+                type="checkbox"
+                checked={strictScalarTypes}
+                onChange={(e) => setStrictScalarTypes(e.target.checked)}
+              />
+              Strict types (report values like True or 1.0 instead of guessing)
+            </label>
+            {activeProject && activeProject.schemas.length > 0 && (
+              <div style={{ marginTop: '10px' }}>
+                <label htmlFor="compare-schema-select" style={{ fontSize: '0.9em' }}>Compare with schema: </label>
+                <select id="compare-schema-select" value={compareSchemaId} onChange={(e) => setCompareSchemaId(e.target.value)}>
+                  <option value="">(none)</option>
+                  {activeProject.schemas.map(schema => <option key={schema.id} value={schema.id}>{schema.name}</option>)}
+                </select>
+                {compareSchema && zwToValidate.trim() && (
+                  <div style={{ marginTop: '10px' }}>
+                    <ZWDiffView before={compareSchema.definition} after={zwToValidate} beforeLabel={`Schema: ${compareSchema.name}`} afterLabel="Packet" />
+                  </div>
+                )}
+              </div>
+            )}
+            {migratedZw !== null && (
+              <div style={{ marginTop: '10px' }}>
+                <h4>Migrated Packets</h4>
+                <ZWDiffView before={zwToValidate} after={migratedZw} beforeLabel="Current" afterLabel="Migrated" />
+                <button className="action-button" onClick={handleUseMigratedPackets} style={{ marginTop: '5px' }}>Use Migrated Packets</button>
+                <button className="action-button secondary" onClick={() => setMigratedZw(null)} style={{ marginTop: '5px', marginLeft: '10px' }}>Discard</button>
+              </div>
+            )}
             <div style={{ marginTop: '20px' }}>
               <h3>Validation Results:</h3>
               {validationFeedback.length === 0 ? <p>No validation performed yet.</p> : (
@@ -1306,7 +2065,15 @@ Generate ONLY the refined ZW packet.
                     </strong> {fb.message}
                     {fb.details && (
                         <ul style={{fontSize: '0.9em', marginTop: '5px'}}>
-                            {fb.details.map((d, i) => <li key={i}>{d}</li>)}
+                            {fb.details.map((d, i) => {
+                              // Findings can only be located while the editor still holds the text they refer to.
+                              const span = fb.source === zwToValidate ? fb.locations?.[i] : undefined;
+                              return (
+                                <li key={i}>
+                                  {span ? <button type="button" className="link-button" style={{ textAlign: 'left' }} onClick={() => handleLocateFeedback(span)} title="Select in the editor">{d}</button> : d}
+                                </li>
+                              );
+                            })}
                         </ul>
                     )}
                   </div>
@@ -1337,6 +2104,22 @@ Generate ONLY the refined ZW packet.
                 style={{ padding: '8px', marginRight: '10px', border: '1px solid #ccc', borderRadius: '4px', marginBottom: '10px' }}
                 aria-label="Optional Root ZW Type for JSON conversion"
               />
+              <label style={{ marginRight: '10px', fontSize: '0.9em' }}>
+                <input
+                  type="checkbox"
+                  checked={jsonCompactArrays}
+                  onChange={(e) => setJsonCompactArrays(e.target.checked)}
+                />
+                Write short lists inline (e.g. TAGS: ["a", "b"])
+              </label>
+              <label style={{ marginRight: '10px', fontSize: '0.9em' }}>
+                Indent:{' '}
+                <select value={jsonIndentStyle} onChange={(e) => setJsonIndentStyle(e.target.value as '2' | '4' | 'tab')} aria-label="Indentation for converted ZW">
+                  <option value="2">2 spaces</option>
+                  <option value="4">4 spaces</option>
+                  <option value="tab">Tabs</option>
+                </select>
+              </label>
               <button className="action-button" onClick={handleConvertJsonAndVisualize} disabled={!jsonToConvertInput.trim()}>
                 Convert JSON to ZW & Visualize
               </button>
@@ -1354,10 +2137,50 @@ Generate ONLY the refined ZW packet.
                 style={{ width: 'calc(100% - 22px)', padding: '10px', border: '1px solid #ccc', borderRadius: '4px', marginBottom: '10px', fontFamily: "'Courier New', Courier, monospace" }}
                 aria-label="ZW Content to Visualize"
               />
+              <div style={{ marginBottom: '10px' }}>
+                <input
+                  type="text"
+                  value={zwQueryPath}
+                  onChange={(e) => setZwQueryPath(e.target.value)}
+                  placeholder="Query, e.g. SETTING.MOOD, SEQUENCE[*].ACTOR or SEQUENCE[TYPE=DIALOGUE]"
+                  style={{ width: '60%', padding: '8px', border: '1px solid #ccc', borderRadius: '4px', fontFamily: "'Courier New', Courier, monospace" }}
+                  aria-label="Path query to highlight matching elements"
+                />
+                {zwQueryPath.trim() && (
+                  <span style={{ marginLeft: '10px', fontSize: '0.9em', color: zwQueryResult.error ? '#c0392b' : '#2980b9' }}>
+                    {zwQueryResult.error ?? `${zwQueryResult.matches.size} match(es)`}
+                  </span>
+                )}
+              </div>
               <div style={{ padding: '15px', backgroundColor: 'white', border: '1px solid #ddd', borderRadius: '4px', minHeight: '100px', overflowX: 'auto' }}>
-                <ZWTemplateVisualizer templateDefinition={zwToVisualize} />
+                <ZWTemplateVisualizer templateDefinition={zwToVisualize} document={visualizedDocument} highlightedElements={zwQueryResult.matches} />
               </div>
               
+              <div style={{ marginTop: '20px' }}>
+                <h4>Apply a STATE-DELTA</h4>
+                <textarea
+                  value={zwDeltaInput}
+                  onChange={(e) => setZwDeltaInput(e.target.value)}
+                  placeholder={'STATE-DELTA:\n  OPS:\n    - SET: SETTING.MOOD\n      VALUE: tense\n    - INCREMENT: PLAYER.GOLD\n      BY: 5'}
+                  rows={6}
+                  style={{ width: 'calc(100% - 22px)', padding: '10px', border: '1px solid #ccc', borderRadius: '4px', marginBottom: '10px', fontFamily: "'Courier New', Courier, monospace" }}
+                  aria-label="STATE-DELTA to apply to the visualized ZW"
+                />
+                <button className="action-button secondary" onClick={handleApplyDeltaToVisualized} disabled={!zwToVisualize.trim() || !zwDeltaInput.trim()}>
+                  Apply Delta to Visualized ZW
+                </button>
+                {zwDeltaFeedback && (
+                  <div style={{ marginTop: '10px', color: zwDeltaFeedback.type === 'success' ? '#27ae60' : zwDeltaFeedback.type === 'error' ? '#c0392b' : '#d35400' }}>
+                    {zwDeltaFeedback.message}
+                    {zwDeltaFeedback.details && zwDeltaFeedback.details.length > 0 && (
+                      <ul style={{ fontSize: '0.9em', marginTop: '5px' }}>
+                        {zwDeltaFeedback.details.map((d, i) => <li key={i}>{d}</li>)}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+
               <div style={{marginTop: '20px'}}>
                 <button className="action-button secondary" onClick={handleConvertVisualizedZwToJson} disabled={!zwToVisualize.trim()}>
                     Convert Visualized ZW to JSON
@@ -1,69 +1,84 @@
-
+import { quoteZWString, formatZWKey } from './zwParser';
+import { formatZWText } from './zwStringify';
 const JSON_TO_ZW_INDENT_SPACES = 2;
+const DEFAULT_COMPACT_ARRAY_MAX_WIDTH = 60;
+
+export interface JsonToZwOptions {
+  indentWidth?: number; // Spaces per nesting level (default 2)
+  useTabs?: boolean; // Indent with one tab per level instead of spaces
+  // Write arrays of scalars as inline flow lists (`TAGS: ["a", "b"]`) when they fit
+  // within `compactArrayMaxWidth` characters. Longer or nested arrays stay block lists.
+  compactScalarArrays?: boolean;
+  compactArrayMaxWidth?: number;
+}
+
+const indentFor = (level: number, options: JsonToZwOptions): string =>
+  options.useTabs ? '\t'.repeat(level) : ' '.repeat(level * (options.indentWidth ?? JSON_TO_ZW_INDENT_SPACES));
 
-const formatZwKey = (key: string): string => {
-  // Basic sanitization: ZW keys typically don't have spaces or special chars other than _ and -
-  // For now, we'll just use the JSON key as is, assuming it's reasonably ZW-compatible.
-  // More aggressive sanitization (e.g., replacing spaces with underscores) could be added.
-  return key;
+const isScalar = (value: any): boolean =>
+  value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+// Returns the inline `[...]` form of an array, or null if it should be written as a block list.
+const formatCompactArray = (value: any[], options: JsonToZwOptions): string | null => {
+  if (!options.compactScalarArrays || !value.every(isScalar)) return null;
+  // Strings are always quoted inside flow lists so commas and brackets stay part of the value.
+  const compact = `[${value.map(item => (typeof item === 'string' ? quoteZWString(item) : String(item))).join(', ')}]`;
+  return compact.length <= (options.compactArrayMaxWidth ?? DEFAULT_COMPACT_ARRAY_MAX_WIDTH) ? compact : null;
 };
 
 const convertValueToZw = (
   value: any,
   currentIndentLevel: number,
-  isInsideListSpecialSyntax: boolean = false // True if we are formatting children of a list of objects
+  options: JsonToZwOptions = {}
 ): string => {
-  const indent = ' '.repeat(currentIndentLevel * JSON_TO_ZW_INDENT_SPACES);
+  const indent = indentFor(currentIndentLevel, options);
   const nextIndentLevel = currentIndentLevel + 1;
 
   if (value === null) {
     return 'null'; // Or represent as empty string if preferred: ""
   }
   if (typeof value === 'string') {
-    // Handle multi-line strings: subsequent lines need indentation
-    const lines = value.split('\\n'); // JSON newlines are literal \n
-    if (lines.length > 1) {
-      return lines.map((line, index) => 
-        index === 0 ? `"${line}"` : `${indent}${line}` // Only first line gets quotes directly from here
-      ).join('\\n'); // Keep as literal \n for ZW parser to potentially handle if needed, or ensure ZW values are single line.
-      // For ZW, multi-line values are typically appended.
-      // The ZW parser handles subsequent non-keyed lines as part of the previous value.
-      // So, for now, ensure quotes are correct for the first line.
-      // The ZW parser will handle multi-line text values if they are unquoted.
-      // Let's output multi-line strings as actual newlines and let ZW parser handle it.
-      // This means if a string in JSON has \n, it becomes a ZW multi-line value.
-      const zwLines = value.split('\\n');
-      return zwLines.map((l, i) => (i > 0 ? indent + l : l)).join('\n');
-
-    }
-    // Escape quotes within the string if we are adding quotes
-    // return `"${value.replace(/"/g, '\\"')}"`; 
-    // ZW values are often not quoted unless they contain special chars or are empty and need distinction.
-    // For simplicity, let's not add extra quotes unless necessary (e.g. empty string)
-    return value === "" ? '""' : value;
-
+    return formatZWText(value, indent);
   }
   if (typeof value === 'number' || typeof value === 'boolean') {
     return String(value);
   }
   if (Array.isArray(value)) {
     if (value.length === 0) {
-      return '[] # Empty list';
+      return '[]'; // Inline empty list, parsed back as an empty array
     }
     return value.map(item => {
-      // If item is an object, it's a list of complex ZW items
-      if (typeof item === 'object' && item !== null && !Array.isArray(item)) {
-        // Each object in the list becomes a set of key-value pairs under a '-'
-        const itemObjectString = convertObjectToZwItems(item, nextIndentLevel, true);
-        return `${indent}- ${itemObjectString.trimStart()}`; // remove leading indent from itemObjectString as '-' provides context
+      if (typeof item === 'object' && item !== null && !Array.isArray(item) && Object.keys(item).length > 0) {
+        // Each object in the list becomes a set of key-value pairs under a '-': the first
+        // key goes right after the marker and the others line up with it, so the item's
+        // lines are shifted from the next level to the column after "- ".
+        if (options.useTabs) {
+          // Tabs cannot line up with the column after "- ", so the keys go under a bare '-'
+          return `${indent}-\n${convertObjectToZwItems(item, nextIndentLevel, options)}`;
+        }
+        const nextIndent = indentFor(nextIndentLevel, options);
+        const itemIndent = `${indent}  `;
+        const itemLines = convertObjectToZwItems(item, nextIndentLevel, options)
+          .split('\n')
+          .map(line => (line.startsWith(nextIndent) ? itemIndent + line.substring(nextIndent.length) : line));
+        return `${indent}- ${itemLines.join('\n').substring(itemIndent.length)}`;
+      }
+      if (Array.isArray(item) && item.length > 0) {
+        const compact = formatCompactArray(item, options);
+        if (compact) return `${indent}- ${compact}`;
+        // A nested list hangs under a bare '-'
+        return `${indent}-\n${convertValueToZw(item, nextIndentLevel, options)}`;
       }
       // Simple list item
-      return `${indent}- ${convertValueToZw(item, nextIndentLevel)}`;
+      return `${indent}- ${convertValueToZw(item, nextIndentLevel, options)}`;
     }).join('\n');
   }
   if (typeof value === 'object' && value !== null) {
+    if (Object.keys(value).length === 0) {
+      return '{}'; // Inline empty map
+    }
     // This should be an object, convert its key-value pairs
-    return convertObjectToZwItems(value, nextIndentLevel, isInsideListSpecialSyntax);
+    return convertObjectToZwItems(value, currentIndentLevel, options);
   }
   return String(value); // Fallback
 };
@@ -71,22 +86,26 @@ const convertValueToZw = (
 const convertObjectToZwItems = (
   obj: Record<string, any>,
   currentIndentLevel: number,
-  isInsideListSpecialSyntax: boolean = false
+  options: JsonToZwOptions = {}
 ): string => {
-  const indent = ' '.repeat(currentIndentLevel * JSON_TO_ZW_INDENT_SPACES);
+  const indent = indentFor(currentIndentLevel, options);
   const lines: string[] = [];
 
   for (const key in obj) {
     if (Object.prototype.hasOwnProperty.call(obj, key)) {
       const value = obj[key];
-      const formattedKey = formatZwKey(key);
+      const formattedKey = formatZWKey(key); // Quoted unless it is a valid bare ZW key
+      const compact = Array.isArray(value) && value.length > 0 ? formatCompactArray(value, options) : null;
       // If the value is an object or an array that's not empty, it's a section or list section.
       // Otherwise, it's a simple key-value.
-      if (typeof value === 'object' && value !== null && (Object.keys(value).length > 0 || (Array.isArray(value) && value.length > 0))) {
-        lines.push(`${isInsideListSpecialSyntax ? '' : indent}${formattedKey}:`);
-        lines.push(convertValueToZw(value, currentIndentLevel + (isInsideListSpecialSyntax ? 0 : 1) )); // if inside list, sub-indent is relative to current object
+      if (compact) {
+        lines.push(`${indent}${formattedKey}: ${compact}`);
+      } else if (typeof value === 'object' && value !== null && (Object.keys(value).length > 0 || (Array.isArray(value) && value.length > 0))) {
+        lines.push(`${indent}${formattedKey}:`);
+        lines.push(convertValueToZw(value, currentIndentLevel + 1, options)); // Children sit one level below the key
       } else { // Simple key-value, or empty object/array treated as value
-        lines.push(`${isInsideListSpecialSyntax ? '' : indent}${formattedKey}: ${convertValueToZw(value, currentIndentLevel)}`);
+        // Scalars are passed the next level, which is where the lines of a text block go
+        lines.push(`${indent}${formattedKey}: ${convertValueToZw(value, currentIndentLevel + 1, options)}`);
       }
     }
   }
@@ -95,7 +114,8 @@ const convertObjectToZwItems = (
 
 export const convertJsonToZwString = (
   jsonString: string,
-  rootZwType?: string
+  rootZwType?: string,
+  options: JsonToZwOptions = {}
 ): string => {
   let parsedJson: any;
   try {
@@ -113,14 +133,14 @@ export const convertJsonToZwString = (
   }
 
   if (typeof parsedJson === 'object' && parsedJson !== null && !Array.isArray(parsedJson)) {
-    zwOutput += convertObjectToZwItems(parsedJson, initialIndentLevel);
+    zwOutput += convertObjectToZwItems(parsedJson, initialIndentLevel, options);
   } else if (Array.isArray(parsedJson)) {
     // If root is an array, we need a key if there's a rootZwType, or just output the list
      if (rootZwType && rootZwType.trim()) {
         // Cannot directly assign an array to a root type like ZW-FOO: [item1, item2]
         // This needs a key. Let's use a default key like "ROOT_LIST_DATA"
-        zwOutput += `${' '.repeat(initialIndentLevel * JSON_TO_ZW_INDENT_SPACES)}ROOT_LIST_DATA:\n`;
-        zwOutput += convertValueToZw(parsedJson, initialIndentLevel + 1);
+        zwOutput += `${indentFor(initialIndentLevel, options)}ROOT_LIST_DATA:\n`;
+        zwOutput += convertValueToZw(parsedJson, initialIndentLevel + 1, options);
      } else {
         // If no root type, just output the list items directly (might look odd for ZW visualizer expecting a root key)
         // The visualizer typically expects a ZWNode with a key.
@@ -130,17 +150,17 @@ export const convertJsonToZwString = (
         // Or, better, make the visualizer handle this or enforce a root key.
         // Let's enforce a fallback root key if no rootZwType and root is array.
         if (!rootZwType) zwOutput += `JSON_ARRAY_ROOT:\n`;
-        zwOutput += convertValueToZw(parsedJson, 1); // Treat as children of the (implicit or explicit) root
+        zwOutput += convertValueToZw(parsedJson, 1, options); // Treat as children of the (implicit or explicit) root
      }
   } else {
     // Root is a primitive value
     if (rootZwType && rootZwType.trim()) {
         // Similar to array, need a key
-        zwOutput += `${' '.repeat(initialIndentLevel * JSON_TO_ZW_INDENT_SPACES)}ROOT_VALUE: ${convertValueToZw(parsedJson, 0)}`;
+        zwOutput += `${indentFor(initialIndentLevel, options)}ROOT_VALUE: ${convertValueToZw(parsedJson, initialIndentLevel + 1, options)}`;
     } else {
         // If no root type, and root is primitive, this is not standard ZW.
         // Wrap it with a default key.
-        zwOutput += `JSON_PRIMITIVE_ROOT: ${convertValueToZw(parsedJson, 0)}`;
+        zwOutput += `JSON_PRIMITIVE_ROOT: ${convertValueToZw(parsedJson, 1, options)}`;
     }
   }
 
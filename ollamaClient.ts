@@ -1,6 +1,7 @@
 export interface OllamaResponse {
   response: string;
   done: boolean;
+  error?: string; // Set instead of a response when generation fails mid-stream
 }
 
 // Fetch a list of available models from a local Ollama server
@@ -15,6 +16,13 @@ export async function getAvailableModels(): Promise<string[]> {
   }
 }
 
+// Fields sent to /api/generate along with the model and prompt.
+export interface OllamaGenerateOptions {
+  options?: { temperature?: number; [parameter: string]: unknown }; // Model parameters
+  system?: string;
+  format?: string;
+}
+
 export class OllamaClient {
   private baseUrl: string;
 
@@ -22,7 +30,7 @@ export class OllamaClient {
     this.baseUrl = baseUrl;
   }
 
-  async generate(model: string, prompt: string, options: any = {}): Promise<string> {
+  async generate(model: string, prompt: string, options: OllamaGenerateOptions = {}): Promise<string> {
     try {
       const response = await fetch(`${this.baseUrl}/api/generate`, {
         method: 'POST',
@@ -47,6 +55,66 @@ export class OllamaClient {
     }
   }
 
+  // Streams a generation: `onChunk` receives each piece of text as Ollama produces it, and
+  // the promise resolves with the whole text. Aborting `signal` stops the generation.
+  async generateStream(
+    model: string,
+    prompt: string,
+    onChunk: (text: string) => void,
+    options: OllamaGenerateOptions = {},
+    signal?: AbortSignal
+  ): Promise<string> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          prompt,
+          stream: true,
+          ...options
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      if (!response.body) {
+        throw new Error('Streaming responses are not supported here.');
+      }
+
+      // The body is newline-delimited JSON, one OllamaResponse per line.
+      let text = '';
+      const handleLine = (line: string) => {
+        if (!line.trim()) return;
+        const data: OllamaResponse = JSON.parse(line);
+        if (data.error) throw new Error(data.error);
+        if (data.response) {
+          text += data.response;
+          onChunk(data.response);
+        }
+      };
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let pending = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        pending += decoder.decode(value, { stream: true });
+        const lines = pending.split('\n');
+        pending = lines.pop() ?? '';
+        lines.forEach(handleLine);
+      }
+      handleLine(pending + decoder.decode());
+      return text;
+    } catch (error) {
+      // A cancel through `signal` is not a failure.
+      if (!signal?.aborted) console.error('Ollama streaming generation failed:', error);
+      throw error;
+    }
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       const response = await fetch(`${this.baseUrl}/api/tags`);
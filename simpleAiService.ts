@@ -47,6 +47,40 @@ export class SimpleAIService {
     }
   }
 
+  // Like generateText, but hands each piece of text to `onChunk` as it is generated.
+  // Aborting `signal` stops the generation and rejects the promise.
+  async generateTextStream(
+    prompt: string,
+    onChunk: (text: string) => void,
+    model?: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const temperature = this.config.temperature || 0.5;
+
+    if (this.config.provider === 'ollama') {
+      const selectedModel = model || this.config.ollamaModel || 'dolphin-mistral:latest';
+      return this.ollamaClient.generateStream(selectedModel, prompt, onChunk, { options: { temperature } }, signal);
+    }
+    else if (this.config.provider === 'gemini' && this.geminiClient) {
+      const stream = await this.geminiClient.models.generateContentStream({
+        model: 'gemini-2.5-flash-preview-04-17',
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        config: { temperature, abortSignal: signal },
+      });
+      let text = '';
+      for await (const chunk of stream) {
+        if (signal?.aborted) throw new DOMException('Generation aborted', 'AbortError');
+        const chunkText = chunk.text ?? '';
+        text += chunkText;
+        onChunk(chunkText);
+      }
+      return text.trim();
+    }
+    else {
+      throw new Error(`AI provider ${this.config.provider} not available`);
+    }
+  }
+
   async testConnection(): Promise<{ ollama: boolean; gemini: boolean }> {
     const results = { ollama: false, gemini: false };
     
@@ -0,0 +1,324 @@
+import {
+  ZWNode,
+  ZWListItem,
+  ZWElement,
+  ZWDocument,
+  ZWIndentStyle,
+  ZWParseOptions,
+  parseZWDocument,
+  detectZWIndentation,
+  splitZWInlineComment,
+  formatZWKey,
+  ZW_KEY_PATTERN,
+  getZWChildren,
+  escapeRegExp,
+} from './zwParser';
+import { formatZWText } from './zwStringify';
+
+// A lossless, line-based view of ZW source. Every character of the input belongs to exactly
+// one token (or line break), so printing the CST gives back the input byte for byte. The
+// semantic tree is parsed alongside it; its spans point into the same source, which is what
+// the edit helpers below use to touch only the lines an edit is about.
+
+export type ZWCstTokenType =
+  | 'indent'
+  | 'marker' // The '-' of a list item
+  | 'key'
+  | 'delimiter'
+  | 'value' // Inline value as written, quotes and flow brackets included
+  | 'comment' // From the '#' to the end of the comment text
+  | 'space'
+  | 'text' // A line inside a "|" / ">" block or a continued value
+  | 'separator' // "---" between packets
+  | 'fence'; // ``` lines around the packet
+
+export interface ZWCstToken {
+  type: ZWCstTokenType;
+  text: string;
+  offset: number; // 0-based offset in the source
+}
+
+export type ZWCstLineKind = 'blank' | 'comment' | 'separator' | 'fence' | 'content' | 'text';
+
+export interface ZWCstLine {
+  lineNumber: number; // 1-based
+  offset: number;
+  text: string; // Without the line break
+  lineBreak: '' | '\n' | '\r\n'; // Empty only for the last line
+  kind: ZWCstLineKind;
+  tokens: ZWCstToken[];
+}
+
+export interface ZWCst {
+  source: string;
+  lines: ZWCstLine[];
+  document: ZWDocument;
+  indentStyle: ZWIndentStyle;
+  lineBreak: '\n' | '\r\n'; // The style used by the source, for inserted lines
+  delimiter: string;
+}
+
+// A replacement of source[start, end) with `newText`.
+export interface ZWTextEdit {
+  start: number;
+  end: number;
+  newText: string;
+}
+
+export class ZWEditError extends Error {}
+
+// Values for edits: strings are written as text (quoted or as a block where needed), the
+// other types as bare literals.
+export type ZWEditValue = string | number | boolean | null;
+
+const formatEditValue = (value: ZWEditValue, blockIndent: string): string =>
+  typeof value === 'string' ? formatZWText(value, blockIndent) : String(value);
+
+// Lines after the first line of a value that spans several lines: block text or text
+// continued on unkeyed lines. They are plain text, whatever they look like.
+const collectTextLines = (document: ZWDocument): Set<number> => {
+  const textLines = new Set<number>();
+  const visit = (element: ZWElement) => {
+    if (element.valueSpan && element.span) {
+      for (let line = element.valueSpan.start.line; line <= element.valueSpan.end.line; line++) {
+        if (line !== element.span.start.line) textLines.add(line);
+      }
+    }
+    getZWChildren(element).forEach(visit);
+  };
+  document.packets.forEach(packet => packet.root && visit(packet.root));
+  return textLines;
+};
+
+const tokenizeLine = (
+  text: string,
+  offset: number,
+  kind: ZWCstLineKind,
+  delimiterRegex: RegExp
+): ZWCstToken[] => {
+  const tokens: ZWCstToken[] = [];
+  const push = (type: ZWCstTokenType, start: number, end: number) => {
+    if (end > start) tokens.push({ type, text: text.substring(start, end), offset: offset + start });
+  };
+  const indentEnd = text.length - text.trimStart().length;
+  const trimmedEnd = text.trimEnd().length;
+  if (kind === 'blank') {
+    push('space', 0, text.length);
+    return tokens;
+  }
+  push('indent', 0, indentEnd);
+  if (kind !== 'content') {
+    const type: ZWCstTokenType = kind === 'comment' ? 'comment' : kind === 'separator' ? 'separator' : kind === 'fence' ? 'fence' : 'text';
+    push(type, indentEnd, kind === 'text' ? text.length : trimmedEnd);
+    if (kind !== 'text') push('space', trimmedEnd, text.length);
+    return tokens;
+  }
+
+  const { content } = splitZWInlineComment(text.substring(indentEnd, trimmedEnd));
+  const contentEnd = indentEnd + content.length;
+  let pos = indentEnd;
+  const skipSpace = (limit: number) => {
+    const start = pos;
+    while (pos < limit && /\s/.test(text[pos])) pos++;
+    push('space', start, pos);
+  };
+  if (/^-(\s|$)/.test(content)) {
+    push('marker', pos, pos + 1);
+    pos++;
+    skipSpace(contentEnd);
+  }
+  const keyMatch = text.substring(pos, contentEnd).match(delimiterRegex);
+  if (keyMatch) {
+    push('key', pos, pos + keyMatch[1].length);
+    push('delimiter', pos + keyMatch[1].length, pos + keyMatch[0].length);
+    pos += keyMatch[0].length;
+    skipSpace(contentEnd);
+  }
+  push('value', pos, contentEnd);
+  if (trimmedEnd > contentEnd) {
+    const hash = text.indexOf('#', contentEnd);
+    push('space', contentEnd, hash);
+    push('comment', hash, trimmedEnd);
+  }
+  push('space', trimmedEnd, text.length);
+  return tokens;
+};
+
+export const parseZWCst = (source: string, options?: ZWParseOptions): ZWCst => {
+  const document = parseZWDocument(source, options);
+  const detected = detectZWIndentation(source);
+  const indentStyle = options?.indentWidth ? { ...detected, width: options.indentWidth } : detected;
+  const delimiter = options?.delimiter || ':';
+  // Packet types are valid bare keys too, so one pattern covers both.
+  const delimiterRegex = new RegExp(`^(${ZW_KEY_PATTERN})${escapeRegExp(delimiter)}`, 'u');
+  const textLines = collectTextLines(document);
+  const packetLines = (lineNumber: number) =>
+    document.packets.some(packet => packet.span.start.line <= lineNumber && lineNumber <= packet.span.end.line);
+
+  let offset = 0;
+  const rawLines = source.split('\n');
+  const lines = rawLines.map((raw, index): ZWCstLine => {
+    const isLast = index === rawLines.length - 1;
+    const hasCarriageReturn = !isLast && raw.endsWith('\r');
+    const text = hasCarriageReturn ? raw.substring(0, raw.length - 1) : raw;
+    const lineBreak = isLast ? '' : hasCarriageReturn ? '\r\n' : '\n';
+    const lineNumber = index + 1;
+    const trimmed = text.trim();
+    let kind: ZWCstLineKind;
+    if (trimmed === '') kind = 'blank';
+    else if (textLines.has(lineNumber)) kind = 'text';
+    else if (trimmed.startsWith('#')) kind = 'comment';
+    else if (/^---\s*$/.test(text)) kind = 'separator';
+    else if (trimmed.startsWith('```') && !packetLines(lineNumber)) kind = 'fence';
+    else kind = 'content';
+    const line: ZWCstLine = { lineNumber, offset, text, lineBreak, kind, tokens: tokenizeLine(text, offset, kind, delimiterRegex) };
+    offset += raw.length + 1;
+    return line;
+  });
+
+  return {
+    source,
+    lines,
+    document,
+    indentStyle,
+    lineBreak: source.includes('\r\n') ? '\r\n' : '\n',
+    delimiter,
+  };
+};
+
+// Gives back the exact source the CST was built from.
+export const printZWCst = (cst: ZWCst): string =>
+  cst.lines.map(line => line.text + line.lineBreak).join('');
+
+// Applies non-overlapping edits made against `source`.
+export const applyZWEdits = (source: string, edits: ZWTextEdit[]): string => {
+  const sorted = [...edits].sort((a, b) => b.start - a.start || b.end - a.end);
+  let result = source;
+  let previousStart = Infinity;
+  sorted.forEach(edit => {
+    if (edit.start > edit.end || edit.end > previousStart) {
+      throw new ZWEditError(`Edits overlap or are out of range at offset ${edit.start}.`);
+    }
+    result = result.substring(0, edit.start) + edit.newText + result.substring(edit.end);
+    previousStart = edit.start;
+  });
+  return result;
+};
+
+const lineAt = (cst: ZWCst, lineNumber: number): ZWCstLine => cst.lines[lineNumber - 1];
+
+const lineEndOffset = (line: ZWCstLine): number => line.offset + line.text.length;
+
+const indentUnit = (cst: ZWCst): string => (cst.indentStyle.useTabs ? '\t' : ' '.repeat(cst.indentStyle.width));
+
+// Whitespace that reaches the given 1-based column of a line, keeping its tabs, so that
+// text under a "- KEY:" item can line up with the key.
+const alignTo = (line: ZWCstLine, column: number): string =>
+  line.text.substring(0, column - 1).replace(/[^\t]/g, ' ');
+
+const requireSpan = <T>(value: T | undefined, what: string): T => {
+  if (value === undefined) throw new ZWEditError(`The element has no ${what}; was it parsed from this source?`);
+  return value;
+};
+
+// Renames a key in place (quoting the new key if needed). Works for entries and for the
+// key written after a list item's '-'.
+export const renameZWKeyEdit = (element: ZWNode | ZWListItem, newKey: string): ZWTextEdit => {
+  const keySpan = requireSpan(element.keySpan, 'key span');
+  return { start: keySpan.start.offset, end: keySpan.end.offset, newText: formatZWKey(newKey) };
+};
+
+// Sets the value of an entry or scalar list item. Whatever the element held before,
+// including nested lines, is replaced; its inline comment is kept.
+export const setZWValueEdits = (cst: ZWCst, element: ZWNode | ZWListItem, value: ZWEditValue): ZWTextEdit[] => {
+  const span = requireSpan(element.span, 'span');
+  if (element.kind === 'item' && element.isKeyValue) {
+    throw new ZWEditError('This list item holds keys; set the value of one of its entries instead.');
+  }
+  const headLine = lineAt(cst, span.start.line);
+  let valueStart: number;
+  let ownerColumn: number;
+  if (element.kind === 'node') {
+    const keySpan = requireSpan(element.keySpan, 'key span');
+    valueStart = keySpan.end.offset + (element.delimiter ?? cst.delimiter).length;
+    ownerColumn = keySpan.start.column;
+  } else {
+    const markerSpan = requireSpan(element.markerSpan, 'marker span');
+    valueStart = markerSpan.end.offset;
+    ownerColumn = markerSpan.start.column;
+  }
+  const headContent = splitZWInlineComment(headLine.text.trimEnd()).content;
+  const headContentEnd = headLine.offset + headContent.length;
+
+  const [firstLine, ...blockLines] = formatEditValue(value, alignTo(headLine, ownerColumn) + indentUnit(cst)).split('\n');
+  const lineBreak = headLine.lineBreak || cst.lineBreak;
+  return [
+    { start: valueStart, end: headContentEnd, newText: ` ${firstLine}` },
+    {
+      // Old block lines or children go; new block lines take their place.
+      start: lineEndOffset(headLine),
+      end: lineEndOffset(lineAt(cst, span.end.line)),
+      newText: blockLines.map(line => lineBreak + line).join(''),
+    },
+  ];
+};
+
+// Inserts "KEY: value" (or a bare "KEY:" section when `value` is undefined) into `parent`,
+// after the child `after` or else after its last child, indented like its other keys.
+export const insertZWEntryEdit = (
+  cst: ZWCst,
+  parent: ZWNode | ZWListItem,
+  key: string,
+  value?: ZWEditValue,
+  after?: ZWNode | ZWListItem
+): ZWTextEdit => {
+  if (!Array.isArray(parent.value) || parent.flowStyle) {
+    throw new ZWEditError('Entries can only be inserted into sections and list items written as blocks.');
+  }
+  const children = getZWChildren(parent);
+  if (after && !children.includes(after)) throw new ZWEditError('`after` is not a child of the given parent.');
+
+  const parentSpan = requireSpan(parent.span, 'span');
+  const keyedSibling = children.find((child): child is ZWNode => child.kind === 'node' && child.keySpan !== undefined);
+  let indent: string;
+  if (keyedSibling?.keySpan) {
+    indent = alignTo(lineAt(cst, keyedSibling.keySpan.start.line), keyedSibling.keySpan.start.column);
+  } else if (children[0]?.span) {
+    const firstChildLine = lineAt(cst, children[0].span.start.line);
+    indent = alignTo(firstChildLine, children[0].span.start.column);
+  } else {
+    const parentLine = lineAt(cst, parentSpan.start.line);
+    indent = alignTo(parentLine, parentSpan.start.column) + indentUnit(cst);
+  }
+
+  const anchor = after ?? children[children.length - 1];
+  const anchorLine = lineAt(cst, anchor?.span ? anchor.span.end.line : parentSpan.start.line);
+  const lineBreak = anchorLine.lineBreak || cst.lineBreak;
+  const delimiter = parent.delimiter ?? cst.delimiter;
+  const entry = value === undefined
+    ? `${indent}${formatZWKey(key)}${delimiter}`
+    : `${indent}${formatZWKey(key)}${delimiter} ${formatEditValue(value, indent + indentUnit(cst))}`;
+  const offset = lineEndOffset(anchorLine);
+  return { start: offset, end: offset, newText: lineBreak + entry.split('\n').join(lineBreak) };
+};
+
+// Removes an element with all of its lines, including the comment lines directly above it.
+export const removeZWElementEdit = (cst: ZWCst, element: ZWNode | ZWListItem): ZWTextEdit => {
+  const span = requireSpan(element.span, 'span');
+  const headLine = lineAt(cst, span.start.line);
+  if (element.kind === 'node' && element.keySpan && /-/.test(headLine.text.substring(0, element.keySpan.start.column - 1))) {
+    throw new ZWEditError('The first key of a list item shares its line with the "-"; remove the list item instead.');
+  }
+  let firstLineNumber = span.start.line;
+  const commentCount = element.leadingComments?.length ?? 0;
+  for (let i = 0; i < commentCount && firstLineNumber > 1 && lineAt(cst, firstLineNumber - 1).kind === 'comment'; i++) {
+    firstLineNumber--;
+  }
+  const firstLine = lineAt(cst, firstLineNumber);
+  const lastLine = lineAt(cst, span.end.line);
+  if (lastLine.lineBreak === '' && firstLineNumber > 1) {
+    // Last line of the file: take the line break before the element instead.
+    return { start: lineEndOffset(lineAt(cst, firstLineNumber - 1)), end: lineEndOffset(lastLine), newText: '' };
+  }
+  return { start: firstLine.offset, end: lineEndOffset(lastLine) + lastLine.lineBreak.length, newText: '' };
+};
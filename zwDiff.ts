@@ -0,0 +1,252 @@
+import { ZWNode, ZWElement, ZWDocument, getZWScalar, getZWChildren } from './zwParser';
+import { joinZWPath } from './zwTraverse';
+
+// Structural comparison of two packets. Entries of a section are matched by key and list
+// items by content, so re-indenting, re-quoting or switching between block and inline
+// forms is not reported. Comments are not compared.
+
+export type ZWChangeKind = 'added' | 'removed' | 'changed' | 'moved';
+
+export interface ZWChange {
+  kind: ZWChangeKind;
+  path: string; // Query path (see zwQuery.ts) in the new packet, or in the old one for removals; '' is the packet itself
+  oldPath?: string; // Path in the old packet, when it differs from `path` (moves, list items that shifted)
+  before?: ZWElement; // Undefined for additions
+  after?: ZWElement; // Undefined for removals
+}
+
+const keyOf = (element: ZWElement): string | undefined => (element.kind === 'node' ? element.key : undefined);
+
+// Canonical text of an element's content: equal signatures mean equal content, whatever
+// the layout, quoting or comments.
+const signatures = new WeakMap<ZWElement, string>();
+export const getZWSignature = (element: ZWElement): string => {
+  const cached = signatures.get(element);
+  if (cached !== undefined) return cached;
+  let signature: string;
+  if (typeof element.value === 'string') {
+    const scalar = getZWScalar(element);
+    signature = JSON.stringify([scalar?.type, scalar?.value]);
+  } else {
+    const children = getZWChildren(element);
+    signature = children.length === 0
+      ? (element.flowStyle === 'list' ? '[]' : '{}')
+      : `(${children.map(child => `${keyOf(child) !== undefined ? JSON.stringify(keyOf(child)) : '-'}:${getZWSignature(child)}`).join(',')})`;
+  }
+  signatures.set(element, signature);
+  return signature;
+};
+
+// What a list item is about: the first entry of an item that holds keys ("- NAME: Eva").
+// Items with the same identity are compared field by field rather than replaced.
+const getZWItemIdentity = (element: ZWElement): string | undefined => {
+  const first = getZWChildren(element)[0];
+  return first && keyOf(first) !== undefined ? `${keyOf(first)}:${getZWSignature(first)}` : undefined;
+};
+
+const withOldPath = (change: ZWChange, oldPath: string): ZWChange =>
+  oldPath !== change.path ? { ...change, oldPath } : change;
+
+type Collect = (change: ZWChange) => void;
+
+// Indexes of the longest common subsequence of two signature lists, as [old, new] pairs.
+const longestCommonSubsequence = (oldSignatures: string[], newSignatures: string[]): Array<[number, number]> => {
+  const n = oldSignatures.length;
+  const m = newSignatures.length;
+  const lengths = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = oldSignatures[i] === newSignatures[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldSignatures[i] === newSignatures[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+};
+
+// Pairs the items of two versions of a list, in order: equal items first, then, between
+// two equal ones, items of the same kind (the same identity, or both scalars) that were
+// edited. Returns [old, new] index pairs sorted by position.
+export const alignZWItems = (oldItems: ZWElement[], newItems: ZWElement[]): Array<[number, number]> => {
+  const common = longestCommonSubsequence(oldItems.map(getZWSignature), newItems.map(getZWSignature));
+  const kindOf = (item: ZWElement) => getZWItemIdentity(item) ?? (typeof item.value === 'string' ? '#scalar' : '#container');
+  const pairs = [...common];
+  let previous: [number, number] = [-1, -1];
+  [...common, [oldItems.length, newItems.length] as [number, number]].forEach(anchor => {
+    const gapOld = Array.from({ length: anchor[0] - previous[0] - 1 }, (_, k) => previous[0] + 1 + k);
+    const gapNew = Array.from({ length: anchor[1] - previous[1] - 1 }, (_, k) => previous[1] + 1 + k);
+    longestCommonSubsequence(gapOld.map(i => kindOf(oldItems[i])), gapNew.map(j => kindOf(newItems[j])))
+      .forEach(([a, b]) => pairs.push([gapOld[a], gapNew[b]]));
+    previous = anchor;
+  });
+  return pairs.sort((a, b) => a[0] - b[0]);
+};
+
+const diffSections = (oldChildren: ZWElement[], newChildren: ZWElement[], oldPath: string, path: string, collect: Collect) => {
+  // Repeated keys are matched by occurrence: the second NOTE with the second NOTE.
+  const occurrenceKeys = (children: ZWElement[]) => {
+    const seen = new Map<string, number>();
+    return children.map(child => {
+      const key = keyOf(child) ?? '-';
+      const count = seen.get(key) ?? 0;
+      seen.set(key, count + 1);
+      return `${key}#${count}`;
+    });
+  };
+  const oldKeys = occurrenceKeys(oldChildren);
+  const newKeys = occurrenceKeys(newChildren);
+  newChildren.forEach((child, index) => {
+    const oldIndex = oldKeys.indexOf(newKeys[index]);
+    const childNewPath = joinZWPath(path, child, index);
+    if (oldIndex === -1) {
+      collect({ kind: 'added', path: childNewPath, after: child });
+    } else {
+      diffElements(oldChildren[oldIndex], child, joinZWPath(oldPath, oldChildren[oldIndex], oldIndex), childNewPath, collect);
+    }
+  });
+  oldChildren.forEach((child, index) => {
+    if (!newKeys.includes(oldKeys[index])) collect({ kind: 'removed', path: joinZWPath(oldPath, child, index), before: child });
+  });
+};
+
+const diffLists = (oldItems: ZWElement[], newItems: ZWElement[], oldPath: string, path: string, collect: Collect) => {
+  const oldSignatures = oldItems.map(getZWSignature);
+  const newSignatures = newItems.map(getZWSignature);
+  const common = longestCommonSubsequence(oldSignatures, newSignatures);
+  const usedOld = new Set(common.map(([i]) => i));
+  const usedNew = new Set(common.map(([, j]) => j));
+  const oldItemPath = (i: number) => joinZWPath(oldPath, oldItems[i], i);
+  const newItemPath = (j: number) => joinZWPath(path, newItems[j], j);
+
+  // Changes are reported in the order of the new list: each entry is placed at the new
+  // index it concerns, and removals where their gap lies.
+  const entries: Array<{ at: number; report: () => void }> = [];
+
+  // Items that are still there unchanged, but in another order.
+  newItems.forEach((item, j) => {
+    if (usedNew.has(j)) return;
+    const i = oldSignatures.findIndex((signature, index) => !usedOld.has(index) && signature === newSignatures[j]);
+    if (i === -1) return;
+    usedOld.add(i);
+    usedNew.add(j);
+    entries.push({ at: j, report: () => collect({ kind: 'moved', path: newItemPath(j), oldPath: oldItemPath(i), before: oldItems[i], after: item }) });
+  });
+
+  // The unchanged items split both lists into gaps; gap k lies before the k-th of them.
+  const anchors: Array<[number, number]> = [...common, [oldItems.length, newItems.length]];
+  const oldGap = (i: number) => anchors.findIndex(([anchor]) => anchor > i);
+  const newGap = (j: number) => anchors.findIndex(([, anchor]) => anchor > j);
+
+  // Items with the same identity are one item, edited: in place when both sit in the same
+  // gap, and moved as well otherwise.
+  newItems.forEach((item, j) => {
+    const identity = getZWItemIdentity(item);
+    if (usedNew.has(j) || identity === undefined) return;
+    const candidates = oldItems.map((_, i) => i).filter(i => !usedOld.has(i) && getZWItemIdentity(oldItems[i]) === identity);
+    if (candidates.length === 0) return;
+    const i = candidates.find(candidate => oldGap(candidate) === newGap(j)) ?? candidates[0];
+    usedOld.add(i);
+    usedNew.add(j);
+    entries.push({
+      at: j,
+      report: () => {
+        if (oldGap(i) !== newGap(j)) collect({ kind: 'moved', path: newItemPath(j), oldPath: oldItemPath(i), before: oldItems[i], after: item });
+        diffElements(oldItems[i], item, oldItemPath(i), newItemPath(j), collect);
+      },
+    });
+  });
+
+  // The rest of each gap is paired by kind (see alignZWItems); whatever is left was removed or added.
+  let previous: [number, number] = [-1, -1];
+  anchors.forEach(anchor => {
+    const gapOld: number[] = [];
+    const gapNew: number[] = [];
+    for (let i = previous[0] + 1; i < anchor[0]; i++) if (!usedOld.has(i)) gapOld.push(i);
+    for (let j = previous[1] + 1; j < anchor[1]; j++) if (!usedNew.has(j)) gapNew.push(j);
+    const removedAt = previous[1] + 0.5;
+    previous = anchor;
+
+    const pairs = alignZWItems(gapOld.map(i => oldItems[i]), gapNew.map(j => newItems[j])).map(([a, b]) => [gapOld[a], gapNew[b]]);
+    const pairedOld = new Set(pairs.map(([i]) => i));
+    const pairedNew = new Set(pairs.map(([, j]) => j));
+    pairs.forEach(([i, j]) => entries.push({ at: j, report: () => diffElements(oldItems[i], newItems[j], oldItemPath(i), newItemPath(j), collect) }));
+    gapNew.filter(j => !pairedNew.has(j)).forEach(j => entries.push({ at: j, report: () => collect({ kind: 'added', path: newItemPath(j), after: newItems[j] }) }));
+    gapOld.filter(i => !pairedOld.has(i)).forEach(i => entries.push({ at: removedAt, report: () => collect({ kind: 'removed', path: oldItemPath(i), before: oldItems[i] }) }));
+  });
+
+  entries.sort((a, b) => a.at - b.at).forEach(entry => entry.report());
+};
+
+const diffElements = (before: ZWElement, after: ZWElement, oldPath: string, path: string, collect: Collect) => {
+  const oldChildren = getZWChildren(before);
+  const newChildren = getZWChildren(after);
+  const isScalar = typeof before.value === 'string' || typeof after.value === 'string';
+  const oldIsSection = oldChildren.some(child => keyOf(child) !== undefined);
+  const newIsSection = newChildren.some(child => keyOf(child) !== undefined);
+  const bothEmpty = oldChildren.length === 0 && newChildren.length === 0;
+  const kindChanged = oldChildren.length > 0 && newChildren.length > 0 && oldIsSection !== newIsSection;
+
+  if (isScalar || bothEmpty || kindChanged) {
+    if (getZWSignature(before) !== getZWSignature(after)) {
+      collect(withOldPath({ kind: 'changed', path, before, after }, oldPath));
+    }
+  } else if (oldIsSection || newIsSection) {
+    diffSections(oldChildren, newChildren, oldPath, path, collect);
+  } else {
+    diffLists(oldChildren, newChildren, oldPath, path, collect);
+  }
+};
+
+// An element removed in one place and added, unchanged, in another was moved.
+const pairMoves = (changes: ZWChange[]): ZWChange[] => {
+  const removed = changes.filter(change => change.kind === 'removed');
+  const consumed = new Set<ZWChange>();
+  const result = changes.map(change => {
+    if (change.kind !== 'added' || !change.after) return change;
+    const after = change.after;
+    const source = removed.find(candidate =>
+      !consumed.has(candidate) &&
+      candidate.before !== undefined &&
+      keyOf(candidate.before) === keyOf(after) &&
+      getZWSignature(candidate.before) === getZWSignature(after)
+    );
+    if (!source) return change;
+    consumed.add(source);
+    return { kind: 'moved' as const, path: change.path, oldPath: source.path, before: source.before, after };
+  });
+  return result.filter(change => !consumed.has(change));
+};
+
+// Lists the differences between two packets, in the order of the new packet.
+export const diffZW = (before: ZWNode, after: ZWNode): ZWChange[] => {
+  const changes: ZWChange[] = [];
+  if (before.key !== after.key) changes.push({ kind: 'changed', path: '', before, after });
+  diffElements(before, after, '', '', change => changes.push(change));
+  return pairMoves(changes);
+};
+
+// Compares documents packet by packet (the first with the first, and so on). A packet
+// with no counterpart is reported as a whole, with the path ''.
+export const diffZWDocuments = (before: ZWDocument, after: ZWDocument): ZWChange[][] => {
+  const count = Math.max(before.packets.length, after.packets.length);
+  return Array.from({ length: count }, (_, index) => {
+    const oldRoot = before.packets[index]?.root ?? undefined;
+    const newRoot = after.packets[index]?.root ?? undefined;
+    if (oldRoot && newRoot) return diffZW(oldRoot, newRoot);
+    if (newRoot) return [{ kind: 'added', path: '', after: newRoot }];
+    if (oldRoot) return [{ kind: 'removed', path: '', before: oldRoot }];
+    return [];
+  });
+};
@@ -0,0 +1,105 @@
+import { ZWNode, ZWElement, ZWSpan, getZWScalar, getZWChildren, getZWScalarText } from './zwParser';
+import { ZWSchema, ZWFieldDefinition, ZWFieldReference } from './zwSchema';
+import { joinZWPath } from './zwTraverse';
+
+// Checks that the packets of a set link up the way their schemas' id and ref fields say
+// (see zwSchema.ts): ids are unique within their namespace, refs name something declared,
+// and everything started is completed somewhere in the set.
+
+export interface ZWReferenceOccurrence {
+  packet: number; // Index in the checked set
+  path: string; // Query path within the packet
+  value: string;
+  reference: ZWFieldReference;
+  span?: ZWSpan;
+}
+
+export type ZWIntegrityIssueKind = 'duplicate-id' | 'dangling-reference' | 'never-completed';
+
+export interface ZWIntegrityIssue {
+  kind: ZWIntegrityIssueKind;
+  namespace: string;
+  value: string;
+  message: string;
+  // Every declaration of a duplicate id, every ref that names nothing, or every start
+  // that is never completed, in document order.
+  occurrences: ZWReferenceOccurrence[];
+}
+
+export interface ZWIntegrityPacket {
+  packet: ZWNode;
+  schema: ZWSchema;
+}
+
+// Follows the schema into the packet and records every value of an id or ref field.
+// Values that do not fit their field are left to validateZWSchema.
+export const collectZWReferences = (packet: ZWNode, schema: ZWSchema, packetIndex = 0): ZWReferenceOccurrence[] => {
+  const occurrences: ZWReferenceOccurrence[] = [];
+  const visitValue = (element: ZWElement, field: ZWFieldDefinition, path: string) => {
+    const { type } = field;
+    if (type.kind === 'object') {
+      visitFields(element, type.fields, path);
+    } else if (type.kind === 'list') {
+      getZWChildren(element).forEach((item, index) => visitValue(item, { ...field, type: type.items }, joinZWPath(path, item, index)));
+    } else if (field.reference) {
+      const scalar = getZWScalar(element);
+      if (scalar && scalar.type !== 'null' && getZWScalarText(scalar) !== '') {
+        occurrences.push({ packet: packetIndex, path, value: getZWScalarText(scalar), reference: field.reference, span: element.valueSpan ?? element.span });
+      }
+    }
+  };
+  const visitFields = (element: ZWElement, fields: ZWFieldDefinition[], path: string) => {
+    getZWChildren(element).forEach((child, index) => {
+      if (child.kind !== 'node') return;
+      const field = fields.find(candidate => candidate.name === child.key);
+      if (field) visitValue(child, field, joinZWPath(path, child, index));
+    });
+  };
+  if (packet.key === schema.target) visitFields(packet, schema.fields, '');
+  return occurrences;
+};
+
+const groupBy = (occurrences: ZWReferenceOccurrence[]): Map<string, ZWReferenceOccurrence[]> => {
+  const groups = new Map<string, ZWReferenceOccurrence[]>();
+  occurrences.forEach(occurrence => {
+    const key = `${occurrence.reference.namespace}\u0000${occurrence.value}`;
+    groups.set(key, [...(groups.get(key) ?? []), occurrence]);
+  });
+  return groups;
+};
+
+// Checks the links between all the given packets, each read with its own schema.
+export const checkZWIntegrity = (packets: ZWIntegrityPacket[]): ZWIntegrityIssue[] => {
+  const occurrences = packets.flatMap(({ packet, schema }, index) => collectZWReferences(packet, schema, index));
+  const isId = (o: ZWReferenceOccurrence) => o.reference.kind === 'id';
+  const isStart = (o: ZWReferenceOccurrence) => o.reference.role === 'start';
+  const isComplete = (o: ZWReferenceOccurrence) => o.reference.role === 'complete';
+  const issues: ZWIntegrityIssue[] = [];
+
+  groupBy(occurrences.filter(isId)).forEach(group => {
+    if (group.length < 2) return;
+    const { namespace } = group[0].reference;
+    issues.push({ kind: 'duplicate-id', namespace, value: group[0].value, message: `${namespace} "${group[0].value}" is declared ${group.length} times`, occurrences: group });
+  });
+
+  const declared = new Set(occurrences.filter(o => isId(o) || isStart(o)).map(o => `${o.reference.namespace}\u0000${o.value}`));
+  groupBy(occurrences.filter(o => !isId(o) && !isStart(o))).forEach((group, key) => {
+    if (declared.has(key)) return;
+    const { namespace } = group[0].reference;
+    issues.push({ kind: 'dangling-reference', namespace, value: group[0].value, message: `${namespace} "${group[0].value}" is referred to but never declared`, occurrences: group });
+  });
+
+  const completed = new Set(occurrences.filter(isComplete).map(o => `${o.reference.namespace}\u0000${o.value}`));
+  groupBy(occurrences.filter(isStart)).forEach((group, key) => {
+    if (completed.has(key)) return;
+    const { namespace } = group[0].reference;
+    issues.push({ kind: 'never-completed', namespace, value: group[0].value, message: `${namespace} "${group[0].value}" is started but never completed`, occurrences: group });
+  });
+  return issues;
+};
+
+export const formatZWReferenceOccurrence = (occurrence: ZWReferenceOccurrence): string =>
+  `${occurrence.path}${occurrence.span ? ` (line ${occurrence.span.start.line})` : ''}`;
+
+export const formatZWIntegrityIssue = (issue: ZWIntegrityIssue): string =>
+  `${issue.message}: ${issue.occurrences.map(formatZWReferenceOccurrence).join(', ')}`;
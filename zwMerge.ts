@@ -0,0 +1,277 @@
+import { ZWNode, ZWListItem, ZWElement, getZWChildren, isZWNode } from './zwParser';
+import { stringifyZW, stringifyZWElements, ZWStringifyOptions } from './zwStringify';
+import { formatZWPathKey } from './zwQuery';
+import { getZWSignature, alignZWItems } from './zwDiff';
+
+// Three-way merge of packets: `ours` and `theirs` are two edits of `base`. A key or list
+// item changed on one side only takes that change; when both sides changed the same key
+// differently, their sections and lists are merged entry by entry. What still overlaps
+// (the same value set to two different things, an item edited on one side and removed on
+// the other, items inserted at the same place) is a conflict. Inline "[...]" / "{...}"
+// collections are merged as single values.
+
+export type ZWMergeChoice = 'ours' | 'theirs' | 'base' | 'both';
+
+export interface ZWMergeConflict {
+  path: string; // Where the conflict sits in the merged packet; '' for the packet itself
+  inList: boolean; // The sides are runs of list items rather than a single key
+  base: ZWElement[]; // Each side is empty where it has nothing (the key was removed, or never added)
+  ours: ZWElement[];
+  theirs: ZWElement[];
+  resolution?: ZWMergeChoice; // Unset when the resolver gave no answer; our side is kept then
+}
+
+export interface ZWMergeResult {
+  merged: ZWNode; // Shares unchanged elements with the inputs
+  conflicts: ZWMergeConflict[];
+}
+
+// Picks a side for each conflict, in the order they are found. 'both' keeps our items
+// followed by theirs; for a key, where only one value fits, it keeps ours.
+export type ZWMergeResolver = (conflict: ZWMergeConflict, index: number) => ZWMergeChoice | undefined;
+
+interface MergeContext {
+  conflicts: ZWMergeConflict[];
+  resolve?: ZWMergeResolver;
+}
+
+// Where a conflict's elements ended up in the merged tree, for the conflict markers.
+interface ConflictSite {
+  parent?: ZWElement; // Undefined for a conflict over the whole packet
+  index: number;
+  count: number;
+}
+
+const conflictSites = new WeakMap<ZWMergeConflict, ConflictSite>();
+
+const isBlockSection = (element: ZWElement): boolean =>
+  Array.isArray(element.value) && !element.flowStyle && getZWChildren(element).every(isZWNode);
+
+const isBlockList = (element: ZWElement): boolean =>
+  Array.isArray(element.value) && !element.flowStyle && !getZWChildren(element).some(isZWNode);
+
+const same = (a?: ZWElement, b?: ZWElement): boolean =>
+  a === undefined || b === undefined ? a === b : getZWSignature(a) === getZWSignature(b);
+
+const sameRun = (a: ZWElement[], b: ZWElement[]): boolean =>
+  a.length === b.length && a.every((element, index) => same(element, b[index]));
+
+const joinKey = (path: string, key: string): string => (path === '' ? formatZWPathKey(key) : `${path}.${formatZWPathKey(key)}`);
+
+const settle = (conflict: ZWMergeConflict, context: MergeContext): ZWElement[] => {
+  conflict.resolution = context.resolve?.(conflict, context.conflicts.length);
+  context.conflicts.push(conflict);
+  switch (conflict.resolution) {
+    case 'theirs':
+      return conflict.theirs;
+    case 'base':
+      return conflict.base;
+    case 'both':
+      return conflict.inList ? [...conflict.ours, ...conflict.theirs] : conflict.ours;
+    default:
+      return conflict.ours;
+  }
+};
+
+// The merged run of elements for one key or list item (absent sides are undefined),
+// with the conflict it raised, if any.
+const mergeEntry = (
+  base: ZWElement | undefined,
+  ours: ZWElement | undefined,
+  theirs: ZWElement | undefined,
+  path: string,
+  context: MergeContext
+): { elements: ZWElement[]; conflict?: ZWMergeConflict } => {
+  const present = (element?: ZWElement) => (element ? [element] : []);
+  if (same(ours, theirs) || same(base, theirs)) return { elements: present(ours) };
+  if (same(base, ours)) return { elements: present(theirs) };
+  if (ours && theirs && isBlockSection(ours) && isBlockSection(theirs) && (!base || isBlockSection(base))) {
+    return { elements: [mergeSection(base, ours, theirs, path, context)] };
+  }
+  if (ours && theirs && isBlockList(ours) && isBlockList(theirs) && (!base || isBlockList(base))) {
+    return { elements: [mergeList(base, ours, theirs, path, context)] };
+  }
+  const conflict: ZWMergeConflict = { path, inList: false, base: present(base), ours: present(ours), theirs: present(theirs) };
+  return { elements: settle(conflict, context), conflict };
+};
+
+// Entries are matched by key (the n-th NOTE with the n-th NOTE). They keep our order;
+// keys only they added follow the key they follow on their side.
+const mergeSection = (base: ZWElement | undefined, ours: ZWElement, theirs: ZWElement, path: string, context: MergeContext): ZWElement => {
+  const entries = (element?: ZWElement) => {
+    const seen = new Map<string, number>();
+    const byKey = new Map<string, ZWNode>();
+    (element ? getZWChildren(element) : []).filter(isZWNode).forEach(node => {
+      const count = seen.get(node.key) ?? 0;
+      seen.set(node.key, count + 1);
+      byKey.set(`${node.key}#${count}`, node);
+    });
+    return byKey;
+  };
+  const baseEntries = entries(base);
+  const ourEntries = entries(ours);
+  const theirEntries = entries(theirs);
+
+  const order = [...ourEntries.keys()];
+  let previous: string | undefined;
+  theirEntries.forEach((_, id) => {
+    if (!order.includes(id)) order.splice(previous === undefined ? 0 : order.indexOf(previous) + 1, 0, id);
+    previous = id;
+  });
+  baseEntries.forEach((_, id) => {
+    if (!order.includes(id)) order.push(id);
+  });
+
+  const merged: ZWElement = { ...ours, value: [] };
+  const children: ZWElement[] = [];
+  order.forEach(id => {
+    const key = (ourEntries.get(id) ?? theirEntries.get(id) ?? baseEntries.get(id))!.key;
+    const { elements, conflict } = mergeEntry(baseEntries.get(id), ourEntries.get(id), theirEntries.get(id), joinKey(path, key), context);
+    if (conflict) conflictSites.set(conflict, { parent: merged, index: children.length, count: elements.length });
+    children.push(...elements);
+  });
+  merged.value = children as ZWNode[];
+  return merged;
+};
+
+// Items are aligned with the base on each side (see alignZWItems). Items aligned on both
+// sides are merged like keys; between two of them, a run changed on one side only takes
+// that change, and runs changed on both sides conflict.
+const mergeList = (base: ZWElement | undefined, ours: ZWElement, theirs: ZWElement, path: string, context: MergeContext): ZWElement => {
+  const baseItems = base ? getZWChildren(base) : [];
+  const ourItems = getZWChildren(ours);
+  const theirItems = getZWChildren(theirs);
+  const ourMatches = new Map(alignZWItems(baseItems, ourItems));
+  const theirMatches = new Map(alignZWItems(baseItems, theirItems));
+  const anchors: Array<[number, number, number]> = baseItems
+    .map((_, i) => [i, ourMatches.get(i), theirMatches.get(i)])
+    .filter((anchor): anchor is [number, number, number] => anchor[1] !== undefined && anchor[2] !== undefined);
+
+  const merged: ZWElement = { ...ours, value: [] };
+  const children: ZWElement[] = [];
+  let previous: [number, number, number] = [-1, -1, -1];
+  [...anchors, [baseItems.length, ourItems.length, theirItems.length] as [number, number, number]].forEach((anchor, index) => {
+    const baseRun = baseItems.slice(previous[0] + 1, anchor[0]);
+    const ourRun = ourItems.slice(previous[1] + 1, anchor[1]);
+    const theirRun = theirItems.slice(previous[2] + 1, anchor[2]);
+    if (sameRun(ourRun, theirRun) || sameRun(baseRun, theirRun)) {
+      children.push(...ourRun);
+    } else if (sameRun(baseRun, ourRun)) {
+      children.push(...theirRun);
+    } else {
+      const conflict: ZWMergeConflict = { path: `${path}[${children.length}]`, inList: true, base: baseRun, ours: ourRun, theirs: theirRun };
+      const elements = settle(conflict, context);
+      conflictSites.set(conflict, { parent: merged, index: children.length, count: elements.length });
+      children.push(...elements);
+    }
+    if (index < anchors.length) {
+      const { elements, conflict } = mergeEntry(baseItems[anchor[0]], ourItems[anchor[1]], theirItems[anchor[2]], `${path}[${children.length}]`, context);
+      if (conflict) conflictSites.set(conflict, { parent: merged, index: children.length, count: elements.length });
+      children.push(...elements);
+    }
+    previous = anchor;
+  });
+  merged.value = children as ZWListItem[];
+  return merged;
+};
+
+// Merges two edits of `base`. Conflicts go to `resolve` as they are found; without an
+// answer our side is kept, and stringifyZWMerge marks them in its output.
+export const mergeZW = (base: ZWNode, ours: ZWNode, theirs: ZWNode, resolve?: ZWMergeResolver): ZWMergeResult => {
+  const context: MergeContext = { conflicts: [], resolve };
+  if (ours.key !== theirs.key && ours.key !== base.key && theirs.key !== base.key) {
+    // Two different packet types: nothing to merge inside.
+    const conflict: ZWMergeConflict = { path: '', inList: false, base: [base], ours: [ours], theirs: [theirs] };
+    const [merged] = settle(conflict, context) as ZWNode[];
+    conflictSites.set(conflict, { index: 0, count: 1 });
+    return { merged, conflicts: context.conflicts };
+  }
+  const key = ours.key === base.key ? theirs.key : ours.key;
+  const { elements, conflict } = mergeEntry(base, ours, theirs, '', context);
+  const result = elements[0] as ZWNode;
+  const merged = result.key === key ? result : { ...result, key };
+  context.conflicts.forEach(other => {
+    const site = conflictSites.get(other);
+    if (site?.parent === result) site.parent = merged;
+  });
+  if (conflict) conflictSites.set(conflict, { index: 0, count: 1 });
+  return { merged, conflicts: context.conflicts };
+};
+
+// --- Conflict markers ---
+
+const placeholder = (n: number) => `__ZW_MERGE_CONFLICT_${n}__`;
+const PLACEHOLDER_LINE_REGEX = /^(\s*)(- )?__ZW_MERGE_CONFLICT_(\d+)__/;
+
+// Our side stays in place and the base and their side follow as comments, so the text
+// still parses (as our version) while the conflict is open.
+const conflictMarkers = (conflict: ZWMergeConflict, indent: string, options: ZWStringifyOptions): string[] => {
+  const print = (elements: ZWElement[]) => (elements.length > 0 ? stringifyZWElements(elements, options).split('\n') : []);
+  const live = (elements: ZWElement[]) => print(elements).map(line => (line ? `${indent}${line}` : line));
+  const commented = (elements: ZWElement[]) => print(elements).map(line => `${indent}# ${line}`.trimEnd());
+  return [
+    `${indent}# <<<<<<< ours`,
+    ...live(conflict.ours),
+    `${indent}# ||||||| base`,
+    ...commented(conflict.base),
+    `${indent}# =======`,
+    ...commented(conflict.theirs),
+    `${indent}# >>>>>>> theirs`,
+  ];
+};
+
+// Prints a merge result, with ZW comment markers around each conflict the resolver left
+// open:
+//
+//   # <<<<<<< ours
+//   MOOD: tense
+//   # ||||||| base
+//   # MOOD: calm
+//   # =======
+//   # MOOD: hopeful
+//   # >>>>>>> theirs
+export const stringifyZWMerge = (result: ZWMergeResult, options: ZWStringifyOptions = {}): string => {
+  const open = result.conflicts.filter(conflict => conflict.resolution === undefined);
+  const packetConflict = open.find(conflict => conflictSites.get(conflict)?.parent === undefined);
+  if (packetConflict) {
+    const [oursRoot] = packetConflict.ours as ZWNode[];
+    const [baseRoot] = packetConflict.base as ZWNode[];
+    const [theirsRoot] = packetConflict.theirs as ZWNode[];
+    const commented = (node: ZWNode) => stringifyZW(node, options).split('\n').map(line => `# ${line}`.trimEnd());
+    return ['# <<<<<<< ours', stringifyZW(oursRoot, options), '# ||||||| base', ...commented(baseRoot), '# =======', ...commented(theirsRoot), '# >>>>>>> theirs'].join('\n');
+  }
+
+  // Each open conflict's elements are swapped for a placeholder while printing. Within a
+  // parent, later conflicts go first so that earlier indexes stay valid.
+  const originals = new Map<ZWElement, ZWElement['value']>();
+  const placed = open
+    .map((conflict, n) => ({ conflict, n, site: conflictSites.get(conflict)! }))
+    .sort((a, b) => b.site.index - a.site.index);
+  placed.forEach(({ conflict, n, site }) => {
+    const parent = site.parent!;
+    if (!originals.has(parent)) originals.set(parent, parent.value);
+    const children = getZWChildren(parent);
+    const depth = parent.depth + 1;
+    const marker: ZWElement = conflict.inList ? { kind: 'item', value: placeholder(n), depth } : { kind: 'node', key: placeholder(n), value: '', depth };
+    parent.value = [...children.slice(0, site.index), marker, ...children.slice(site.index + site.count)] as ZWNode[];
+  });
+  let text: string;
+  try {
+    text = stringifyZW(result.merged, options);
+  } finally {
+    originals.forEach((value, parent) => {
+      parent.value = value;
+    });
+  }
+
+  return text.split('\n').flatMap(line => {
+    const match = line.match(PLACEHOLDER_LINE_REGEX);
+    if (!match) return [line];
+    const conflict = open[Number(match[3])];
+    if (match[2] && !conflict.inList) {
+      // The first key of a list item: the item's other keys line up two columns in.
+      return [`${match[1]}-`, ...conflictMarkers(conflict, `${match[1]}  `, options)];
+    }
+    return conflictMarkers(conflict, match[1], options);
+  }).join('\n');
+};
@@ -0,0 +1,348 @@
+import { ZWNode, ZWListItem, ZWElement, ZWSpan, getZWScalar, resolveZWScalar, quoteZWString, getZWChildren, isZWNode, findZWChild, findZWParent, isZWSection } from './zwParser';
+import { ZWQueryStep, ZWQueryError, parseZWQuery, queryZW } from './zwQuery';
+import { formatZWText } from './zwStringify';
+import { mapZW } from './zwTraverse';
+import {
+  ZWFieldDefinition,
+  ZWFieldType,
+  ZWSchemaResolver,
+  ZW_SCHEMA_VERSION_KEY,
+  getZWPacketVersion,
+  isZWSchema,
+  parseZWSchema,
+} from './zwSchema';
+
+// A versioned ZW-SCHEMA lists under MIGRATIONS how packets written for an older version
+// are upgraded, one version at a time:
+//
+//   ZW-SCHEMA:
+//     TARGET: ZW-NARRATIVE-EVENT
+//     VERSION: 3
+//     FIELDS: ...
+//     MIGRATIONS:
+//       - FROM: 1                        # Upgrades version 1 packets to version 2
+//         STEPS:
+//           - RENAME: SEQUENCE           # Gives the key another name, in place
+//             TO: SEQUENCE_PARTS
+//           - DELETE: FOCUS
+//       - FROM: 2
+//         STEPS:
+//           - SPLIT: SETTING.LOCATION    # "Derelict Ship - Bridge" becomes
+//             INTO: [SHIP, ROOM]         # SHIP: Derelict Ship and ROOM: Bridge
+//             SEPARATOR: " - "           # Optional, "," by default
+//           - MOVE: SETTING.TIME_OF_DAY
+//             TO: META.TIME_OF_DAY       # Missing sections on the way are created
+//           - DEFAULT: META.AUTHOR       # Adds the key where it is missing
+//             VALUE: Unknown             # Optional when FIELDS gives the key a DEFAULT
+//
+// Paths use the query syntax (see zwQuery.ts), so SEQUENCE[*].EMOTION reaches every item.
+// A step that cannot apply somewhere is skipped there and reported; the rest of the
+// migration still runs, so nothing is lost that a person could not put right afterwards.
+
+// Thrown for MIGRATIONS that are not well-formed, as opposed to packets they do not fit.
+export class ZWMigrationError extends Error {}
+
+export type ZWMigrationStepKind = 'rename' | 'move' | 'split' | 'default' | 'delete';
+
+export interface ZWMigrationIssue {
+  from: number; // The version the migration upgrades from
+  step?: number; // 0-based index in its STEPS; undefined when the migration as a whole did not run
+  kind?: ZWMigrationStepKind;
+  path?: string;
+  message: string;
+  span?: ZWSpan; // The step in the schema's source
+}
+
+export interface ZWMigrationResult {
+  result: ZWNode; // An upgraded copy, with SCHEMA_VERSION set to `version`; the packet is left unchanged
+  version: number; // The version reached, short of the schema's when a migration is missing
+  migrated: boolean; // False when no migration ran, so `result` has the packet's content
+  issues: ZWMigrationIssue[];
+}
+
+interface ZWMigrationStep {
+  kind: ZWMigrationStepKind;
+  path: string;
+  steps: ZWQueryStep[];
+  to?: string; // RENAME: the new key; MOVE: the destination path
+  toSteps?: ZWQueryStep[];
+  into?: string[];
+  separator?: string;
+  value?: ZWNode;
+  span?: ZWSpan;
+}
+
+interface ZWMigration {
+  from: number;
+  steps: ZWMigrationStep[];
+}
+
+const STEP_KINDS: Record<string, ZWMigrationStepKind> = {
+  RENAME: 'rename',
+  MOVE: 'move',
+  SPLIT: 'split',
+  DEFAULT: 'default',
+  DELETE: 'delete',
+};
+
+const textOf = (element: ZWElement | undefined): string | undefined => {
+  const scalar = element && getZWScalar(element);
+  if (!scalar || scalar.type === 'null') return undefined;
+  return scalar.type === 'string' ? String(scalar.value) : scalar.raw.trim();
+};
+
+// A path made of plain keys only, such as META.AUTHOR, names one place that can be created.
+const isPlainPath = (steps: ZWQueryStep[]): boolean =>
+  steps.every(step => step.kind === 'child' && step.key !== null && !step.recursive);
+
+const lastKey = (steps: ZWQueryStep[]): string | undefined => {
+  const last = steps[steps.length - 1];
+  return last && last.kind === 'child' && last.key !== null && !last.recursive ? last.key : undefined;
+};
+
+// --- Reading migrations ---
+
+const readPath = (text: string, position: string): ZWQueryStep[] => {
+  try {
+    return parseZWQuery(text);
+  } catch (error) {
+    if (error instanceof ZWQueryError) throw new ZWMigrationError(`${position}: ${error.message}`);
+    throw error;
+  }
+};
+
+const readStep = (item: ZWElement, position: string): ZWMigrationStep => {
+  const [stepField] = getZWChildren(item).filter(isZWNode);
+  const kind = stepField && Object.keys(STEP_KINDS).includes(stepField.key) ? STEP_KINDS[stepField.key] : undefined;
+  if (isZWNode(item) || !kind) {
+    throw new ZWMigrationError(`${position}: expected a list item starting with one of ${Object.keys(STEP_KINDS).join(', ')}.`);
+  }
+  const path = textOf(stepField);
+  if (!path) throw new ZWMigrationError(`${position}: ${stepField.key} needs a path.`);
+  const step: ZWMigrationStep = { kind, path, steps: readPath(path, position), span: item.span };
+  const to = textOf(findZWChild(item, 'TO'));
+  switch (kind) {
+    case 'rename':
+      if (!to || !lastKey(step.steps)) throw new ZWMigrationError(`${position}: RENAME needs a path ending in a key and a new key name in TO.`);
+      step.to = to;
+      break;
+    case 'move':
+      if (!to) throw new ZWMigrationError(`${position}: MOVE needs a destination path in TO.`);
+      step.to = to;
+      step.toSteps = readPath(to, position);
+      if (!isPlainPath(step.toSteps)) throw new ZWMigrationError(`${position}: the destination of MOVE must be a path of plain keys, as in META.TIME_OF_DAY.`);
+      break;
+    case 'split': {
+      const into = findZWChild(item, 'INTO');
+      const keys = into ? getZWChildren(into).map(textOf) : [];
+      if (!lastKey(step.steps) || keys.length < 2 || keys.some(key => !key)) {
+        throw new ZWMigrationError(`${position}: SPLIT needs a path ending in a key and a list of at least two new keys in INTO.`);
+      }
+      step.into = keys as string[];
+      step.separator = textOf(findZWChild(item, 'SEPARATOR')) ?? ',';
+      break;
+    }
+    case 'default':
+      if (!lastKey(step.steps)) throw new ZWMigrationError(`${position}: the path of DEFAULT must end in a key, as in META.AUTHOR.`);
+      step.value = findZWChild(item, 'VALUE');
+      break;
+  }
+  return step;
+};
+
+const readMigrations = (schemaRoot: ZWNode): ZWMigration[] => {
+  const list = findZWChild(schemaRoot, 'MIGRATIONS');
+  if (!list) return [];
+  if (!Array.isArray(list.value) || getZWChildren(list).some(isZWNode)) throw new ZWMigrationError('MIGRATIONS must be a list.');
+  return getZWChildren(list).map((entry, index) => {
+    const from = Number(textOf(findZWChild(entry, 'FROM')));
+    if (!Number.isInteger(from) || from < 1) throw new ZWMigrationError(`Migration ${index + 1}: FROM must be a whole number from 1 up.`);
+    const steps = findZWChild(entry, 'STEPS');
+    return {
+      from,
+      steps: steps ? getZWChildren(steps).map((item, n) => readStep(item, `Migration from version ${from}, step ${n + 1}`)) : [],
+    };
+  });
+};
+
+// --- Applying migrations ---
+
+// Element copies placed at `depth`, without the source positions of where they came from.
+const placeAt = <T extends ZWElement>(element: T, depth: number): T =>
+  mapZW(element, (copy, context) => ({ ...copy, depth: depth + context.depth, span: undefined, keySpan: undefined, valueSpan: undefined })) as T;
+
+const scalarNode = (key: string, text: string, depth: number): ZWNode => {
+  const raw = text.includes('\n') ? quoteZWString(text) : formatZWText(text, '');
+  return { kind: 'node', key, value: raw, depth, delimiter: ':', scalar: resolveZWScalar(raw) };
+};
+
+const replaceChild = (parent: ZWElement, child: ZWElement, replacements: ZWElement[]) => {
+  const children = getZWChildren(parent);
+  const index = children.indexOf(child);
+  parent.value = [...children.slice(0, index), ...replacements, ...children.slice(index + 1)] as ZWListItem['value'];
+};
+
+// The sections a path of keys leads to. A plain path is created where it is missing.
+const sectionsAt = (root: ZWNode, steps: ZWQueryStep[]): ZWElement[] => {
+  if (steps.length === 0) return [root];
+  if (!isPlainPath(steps)) return queryZW(root, steps);
+  let section: ZWElement = root;
+  for (const step of steps as Array<Extract<ZWQueryStep, { kind: 'child' }>>) {
+    let next: ZWElement | undefined = findZWChild(section, step.key!);
+    if (!next) {
+      if (!isZWSection(section)) return [];
+      next = { kind: 'node', key: step.key!, value: [], depth: section.depth + 1, delimiter: ':' };
+      section.value = [...getZWChildren(section), next] as ZWNode[];
+    }
+    section = next;
+  }
+  return [section];
+};
+
+// The schema's definition of the field a path ends at, for DEFAULT steps without a VALUE.
+const fieldAt = (fields: ZWFieldDefinition[], steps: ZWQueryStep[]): ZWFieldDefinition | undefined => {
+  let candidates = fields;
+  let field: ZWFieldDefinition | undefined;
+  for (const step of steps) {
+    if (step.kind !== 'child') continue; // Indexes and filters stay within the same list
+    field = candidates.find(candidate => candidate.name === step.key);
+    if (!field) return undefined;
+    let type: ZWFieldType = field.type;
+    if (type.kind === 'list') type = type.items;
+    candidates = type.kind === 'object' ? type.fields : [];
+  }
+  return field;
+};
+
+// Applies one step to `root`, returning what could not be done.
+const applyStep = (root: ZWNode, step: ZWMigrationStep, fields: ZWFieldDefinition[]): string[] => {
+  const problems: string[] = [];
+  switch (step.kind) {
+    case 'rename': {
+      queryZW(root, step.steps).forEach(target => {
+        const parent = findZWParent(root, target);
+        if (!isZWNode(target) || !parent) return;
+        if (findZWChild(parent, step.to!)) problems.push(`${step.path} was not renamed where ${step.to} already exists.`);
+        else target.key = step.to!;
+      });
+      break;
+    }
+    case 'delete': {
+      queryZW(root, step.steps).forEach(target => {
+        const parent = findZWParent(root, target);
+        if (parent) replaceChild(parent, target, []);
+      });
+      break;
+    }
+    case 'move': {
+      const targets = queryZW(root, step.steps);
+      if (targets.length === 0) break;
+      if (targets.length > 1) {
+        problems.push(`${step.path} matches ${targets.length} elements; MOVE takes one.`);
+        break;
+      }
+      const [target] = targets;
+      const key = lastKey(step.toSteps!)!;
+      const parent = findZWParent(root, target);
+      if (!isZWNode(target) || !parent) {
+        problems.push(`${step.path} is not a key and cannot be moved.`);
+        break;
+      }
+      // Sections are only created on the way to a destination that is free; sectionsAt
+      // creates nothing when it finds no section to create them in.
+      const [destination] = sectionsAt(root, step.toSteps!.slice(0, -1));
+      if (!destination || !isZWSection(destination)) problems.push(`${step.to} cannot be created: its parent is not a section.`);
+      else if (findZWChild(destination, key)) problems.push(`${step.path} was not moved because ${step.to} already exists.`);
+      else {
+        replaceChild(parent, target, []);
+        destination.value = [...getZWChildren(destination), { ...placeAt(target, destination.depth + 1), key }] as ZWNode[];
+      }
+      break;
+    }
+    case 'split': {
+      queryZW(root, step.steps).forEach(target => {
+        const parent = findZWParent(root, target);
+        if (!isZWNode(target) || !parent) return;
+        const text = textOf(target);
+        if (text === undefined) {
+          problems.push(`${step.path} holds no single value to split.`);
+          return;
+        }
+        const parts = text.split(step.separator!).map(part => part.trim());
+        const taken = step.into!.find(key => key !== target.key && findZWChild(parent, key));
+        if (parts.length !== step.into!.length) {
+          problems.push(`"${text}" at ${step.path} splits into ${parts.length} part(s) at "${step.separator}", not ${step.into!.length}.`);
+        } else if (taken) {
+          problems.push(`${step.path} was not split because ${taken} already exists.`);
+        } else {
+          replaceChild(parent, target, step.into!.map((key, i) => scalarNode(key, parts[i], target.depth)));
+        }
+      });
+      break;
+    }
+    case 'default': {
+      const key = lastKey(step.steps)!;
+      const value = step.value ?? fieldAt(fields, step.steps)?.default;
+      if (!value) {
+        problems.push(`${step.path} has no VALUE, and the schema gives it no DEFAULT.`);
+        break;
+      }
+      const sections = sectionsAt(root, step.steps.slice(0, -1));
+      sections.filter(isZWSection).forEach(section => {
+        if (findZWChild(section, key)) return;
+        section.value = [...getZWChildren(section), { ...placeAt(value, section.depth + 1), key }] as ZWNode[];
+      });
+      break;
+    }
+  }
+  return problems;
+};
+
+const setVersion = (root: ZWNode, version: number) => {
+  const raw = String(version);
+  const entry: ZWNode = { kind: 'node', key: ZW_SCHEMA_VERSION_KEY, value: raw, depth: root.depth + 1, delimiter: ':', scalar: resolveZWScalar(raw) };
+  const existing = findZWChild(root, ZW_SCHEMA_VERSION_KEY);
+  if (existing) replaceChild(root, existing, [{ ...entry, inlineComment: existing.inlineComment }]);
+  else root.value = [entry, ...getZWChildren(root)] as ZWNode[];
+};
+
+// Upgrades a copy of `packet` to the version of a versioned ZW-SCHEMA, whose references
+// `resolve` looks up (see parseZWSchema). Throws ZWMigrationError (or ZWSchemaError) when
+// the schema is malformed; migrations that do not fit the packet are returned as issues instead.
+export const migrateZW = (packet: ZWNode, schemaRoot: ZWNode, resolve?: ZWSchemaResolver): ZWMigrationResult => {
+  if (!isZWSchema(schemaRoot)) throw new ZWMigrationError('Only a ZW-SCHEMA can migrate packets.');
+  const schema = parseZWSchema(schemaRoot, resolve);
+  if (schema.version === undefined) throw new ZWMigrationError('The schema has no VERSION to migrate packets to.');
+  const migrations = readMigrations(schemaRoot);
+  const result = placeAt(packet, packet.depth);
+  const issues: ZWMigrationIssue[] = [];
+  let version = getZWPacketVersion(packet);
+  if (packet.key !== schema.target) {
+    return { result, version: version ?? 1, migrated: false, issues: [{ from: version ?? 1, message: `The schema is for ${schema.target} packets, not ${packet.key}.` }] };
+  }
+  if (version === undefined) {
+    return { result, version: 1, migrated: false, issues: [{ from: 1, message: `${ZW_SCHEMA_VERSION_KEY} is not a whole number, so the packet's version is unknown.` }] };
+  }
+  if (version > schema.version) {
+    issues.push({ from: version, message: `The packet is at version ${version}, newer than the schema (version ${schema.version}).` });
+  }
+  while (version < schema.version) {
+    const migration = migrations.find(candidate => candidate.from === version);
+    if (!migration) {
+      issues.push({ from: version, message: `The schema has no migration from version ${version}.` });
+      break;
+    }
+    migration.steps.forEach((step, index) => {
+      applyStep(result, step, schema.fields).forEach(message =>
+        issues.push({ from: migration.from, step: index, kind: step.kind, path: step.path, message, span: step.span })
+      );
+    });
+    version++;
+  }
+  const migrated = version !== getZWPacketVersion(packet);
+  if (migrated) setVersion(result, version);
+  return { result, version, migrated, issues };
+};
+
+export const formatZWMigrationIssue = (issue: ZWMigrationIssue): string =>
+  `${issue.step !== undefined ? `Version ${issue.from} → ${issue.from + 1}, step ${issue.step + 1}: ` : ''}${issue.message}`;
@@ -1,18 +1,115 @@
+// A location in the original input. Line and column are 1-based; offset is the
+// 0-based character index into the string that was passed to the parser.
+export interface ZWPosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+// Spans are half-open: `end` points just past the last character.
+export interface ZWSpan {
+  start: ZWPosition;
+  end: ZWPosition;
+}
 
+// The elements of a tree are keyed nodes and list items, told apart by `kind`.
 export interface ZWNode {
+  kind: 'node';
   key: string;
   value?: string | ZWNode[] | ZWListItem[];
   depth: number;
-  parent?: ZWNode; 
+  parent?: ZWNode;
   delimiter?: string; // Store the delimiter used for this node's children if applicable
+  span?: ZWSpan; // Whole node, including all nested children
+  keySpan?: ZWSpan;
+  valueSpan?: ZWSpan; // Only set for inline values (scalars and flow collections)
+  flowStyle?: ZWFlowStyle;
+  scalarStyle?: ZWScalarStyle;
+  scalar?: ZWScalar; // Typed form of a string value
+  leadingComments?: string[]; // Full-line comments directly above the node, without the '#'
+  inlineComment?: string; // Trailing "# ..." comment on the node's own line, without the '#'
+  trailingComments?: string[]; // Root only: comments after the last element of the packet
 }
 
 export interface ZWListItem {
-  value: string | ZWNode[];
-  isKeyValue?: boolean;
-  itemKey?: string;
+  kind: 'item';
+  // A scalar, an object (its keys as ZWNodes) or a nested list.
+  value: string | ZWNode[] | ZWListItem[];
+  isKeyValue?: boolean; // True when the item is an object whose first key is written after the '-'
+  itemKey?: string; // That first key
   depth: number;
   delimiter?: string; // Store the delimiter if it's a list of KVs
+  span?: ZWSpan;
+  markerSpan?: ZWSpan; // The '-' marker
+  keySpan?: ZWSpan; // Only set for key-value items
+  valueSpan?: ZWSpan;
+  flowStyle?: ZWFlowStyle;
+  scalarStyle?: ZWScalarStyle;
+  scalar?: ZWScalar;
+  leadingComments?: string[];
+  inlineComment?: string; // For "- NAME: Eva # ..." the comment belongs to the NAME entry instead
+}
+
+export type ZWElement = ZWNode | ZWListItem;
+
+// Set when a value was written inline as "[a, b]" ('list') or "{ KEY: value }" ('map').
+// Also lets consumers tell an empty "[]" from an empty "{}".
+export type ZWFlowStyle = 'list' | 'map';
+
+// Set when a string value was written as an indented block after "|" ('literal', newlines
+// kept) or ">" ('folded', lines joined with spaces). The value then holds the final text
+// rather than the raw source, so it must not be unquoted or type-converted.
+export type ZWScalarStyle = 'literal' | 'folded';
+
+export type ZWScalarType = 'string' | 'integer' | 'float' | 'boolean' | 'null';
+
+// A scalar with its type resolved by the parser, so that every consumer reads values the
+// same way. `raw` is the value as written (quotes and escapes included; for block text,
+// the final text) and `value` what it stands for.
+export interface ZWScalar {
+  type: ZWScalarType;
+  value: string | number | boolean | null;
+  raw: string;
+}
+
+export type ZWDiagnosticSeverity = 'error' | 'warning' | 'info';
+
+// A single problem found while parsing. Line and column are 1-based and refer to the
+// original input string (before markdown fences are stripped), so they can be shown
+// to the user as-is.
+export interface ZWDiagnostic {
+  severity: ZWDiagnosticSeverity;
+  code: 'invalid-root' | 'unexpected-root' | 'orphan-line' | 'odd-indentation' | 'mixed-indentation' | 'unmatched-content' | 'invalid-flow' | 'ambiguous-scalar';
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface ZWParseResult {
+  root: ZWNode | null; // Best-effort tree; only null when the input has no content at all
+  diagnostics: ZWDiagnostic[];
+}
+
+export interface ZWParseOptions {
+  delimiter?: string;
+  indentWidth?: number; // Spaces per nesting level; detected from the input when omitted
+  // Only lowercase true / false / null and canonically written numbers are typed; other
+  // values that look like them ("True", "1.0", "007") are reported as errors.
+  strict?: boolean;
+}
+
+// How a document is indented. A tab always counts as one nesting level.
+export interface ZWIndentStyle {
+  width: number; // Spaces per level
+  useTabs: boolean;
+}
+
+export const DEFAULT_ZW_INDENT_WIDTH = 2;
+
+interface SourceLine {
+  text: string;
+  lineNumber: number; // 1-based, in the original input
+  offset: number; // Offset of the first character of the line in the original input
 }
 
 const getIndentation = (line: string): number => {
@@ -20,127 +117,1021 @@ const getIndentation = (line: string): number => {
   return match ? match[0].length : 0;
 };
 
-const escapeRegExp = (string: string): string => {
+// Width of a line's indentation in columns, with each tab standing for one full level.
+const indentColumns = (text: string, style: ZWIndentStyle): number => {
+  const leading = text.match(/^[ \t]*/)![0];
+  const tabs = leading.length - leading.replace(/\t/g, '').length;
+  return tabs * style.width + (leading.length - tabs);
+};
+
+// Removes `columns` columns of indentation (as counted by indentColumns) from `text`.
+const stripIndentColumns = (text: string, columns: number, style: ZWIndentStyle): string => {
+  let removed = 0;
+  let index = 0;
+  while (index < text.length && removed < columns && (text[index] === ' ' || text[index] === '\t')) {
+    removed += text[index] === '\t' ? style.width : 1;
+    index++;
+  }
+  return text.substring(index);
+};
+
+export const escapeRegExp = (string: string): string => {
   return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'); // $& means the whole matched string
 };
 
-export const parseZW = (zwString: string, options?: { delimiter?: string }): ZWNode | null => {
-  if (!zwString || !zwString.trim()) {
-    return null;
+// Root node type always uses ':', as per ZW convention for packet types.
+const ROOT_LINE_REGEX = /^([A-Z0-9_-]+(?:-[A-Z0-9_-]+)*):\s*$/i;
+
+export const hasParseErrors = (diagnostics: ZWDiagnostic[]): boolean =>
+  diagnostics.some(d => d.severity === 'error');
+
+export const formatZWDiagnostic = (diagnostic: ZWDiagnostic): string =>
+  `Line ${diagnostic.line}, col ${diagnostic.column}: ${diagnostic.message}`;
+
+// Splits a trailing "# comment" off a line. A '#' only starts a comment when it stands
+// alone (whitespace or line end on both sides) and is outside quoted strings, so values
+// such as #ff0000 or "Take # 2" are left alone. Quotes only open at the start of a token;
+// an apostrophe inside a word ("Eva's") is plain text.
+export const splitZWInlineComment = (text: string): { content: string; comment?: string } => {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if ((char === '"' || char === "'") && (i === 0 || /[\s[{,:]/.test(text[i - 1]))) {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1])) && (i + 1 === text.length || /\s/.test(text[i + 1]))) {
+      return { content: text.substring(0, i).trimEnd(), comment: text.substring(i + 1).trim() };
+    }
+  }
+  return { content: text };
+};
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '0': '\0', '"': '"', "'": "'", '\\': '\\', '/': '/',
+};
+
+// Returns the text of a quoted scalar such as `"Line one\nShe said \"hi\""`, with escapes
+// resolved. Double-quoted strings support the JSON escapes (plus \' and \0); single-quoted
+// strings only \' and \\. Anything that is not exactly one quoted string is returned as-is.
+export const unquoteZWString = (raw: string): string => {
+  const quote = raw[0];
+  if ((quote !== '"' && quote !== "'") || raw.length < 2) return raw;
+  let text = '';
+  for (let i = 1; i < raw.length; i++) {
+    const char = raw[i];
+    if (char === quote) {
+      return i === raw.length - 1 ? text : raw;
+    }
+    if (char !== '\\' || i + 1 >= raw.length) {
+      text += char;
+      continue;
+    }
+    const escaped = raw[++i];
+    if (quote === "'") {
+      text += escaped === "'" || escaped === '\\' ? escaped : `\\${escaped}`;
+    } else if (escaped === 'u' && /^[0-9a-fA-F]{4}$/.test(raw.substring(i + 1, i + 5))) {
+      text += String.fromCharCode(parseInt(raw.substring(i + 1, i + 5), 16));
+      i += 4;
+    } else {
+      text += SIMPLE_ESCAPES[escaped] ?? escaped;
+    }
+  }
+  return raw; // No closing quote
+};
+
+// The double-quoted form of `text`; unquoteZWString turns it back into the same text.
+export const quoteZWString = (text: string): string => JSON.stringify(text);
+
+// Child keys are written bare when they are made of letters and digits (of any script)
+// and "_", with "-" and "." also allowed after the first character. Any other key is
+// quoted like a string, e.g. "first name": Eva. The pattern is meant for the 'u' flag.
+export const ZW_KEY_PATTERN = `[\\p{L}\\p{N}_][\\p{L}\\p{M}\\p{N}_.-]*|"(?:[^"\\\\]|\\\\.)*"|'(?:[^'\\\\]|\\\\.)*'`;
+const BARE_KEY_REGEX = /^[\p{L}\p{N}_][\p{L}\p{M}\p{N}_.-]*$/u;
+const FLOW_KEY_REGEX = new RegExp(`^(?:${ZW_KEY_PATTERN})`, 'u');
+
+// Writes a key the way the parser reads it back.
+export const formatZWKey = (key: string): string => (BARE_KEY_REGEX.test(key) ? key : quoteZWString(key));
+
+// Numbers are only read in the form JavaScript prints them in, so "1.0", "007" or "1e3"
+// keep their spelling as text instead of quietly turning into a different one.
+const NUMBER_REGEX = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+const NUMBER_LIKE_REGEX = /^[+-]?(\d[\d_]*\.?\d*|\.\d+)([eE][+-]?\d+)?$|^[+-]?(0x[0-9a-f]+|infinity|nan)$/i;
+
+const resolveNumber = (text: string): number | null => {
+  if (!NUMBER_REGEX.test(text)) return null;
+  const number = Number(text);
+  return Number.isFinite(number) && String(number) === text ? number : null;
+};
+
+// Resolves the type of a value written as `raw`. Quoted values and block text are always
+// strings; outside strict mode, true / false / null are recognised in any letter case.
+export const resolveZWScalar = (raw: string, scalarStyle?: ZWScalarStyle, strict = false): ZWScalar => {
+  if (scalarStyle) return { type: 'string', value: raw, raw };
+  const text = raw.trim();
+  const keyword = strict ? text : text.toLowerCase();
+  if (keyword === 'true' || keyword === 'false') return { type: 'boolean', value: keyword === 'true', raw };
+  if (keyword === 'null') return { type: 'null', value: null, raw };
+  const number = resolveNumber(text);
+  if (number !== null) return { type: /[.eE]/.test(text) ? 'float' : 'integer', value: number, raw };
+  return { type: 'string', value: unquoteZWString(text), raw };
+};
+
+// True for unquoted text that strict mode refuses to type although it looks like a number,
+// boolean or null.
+export const isAmbiguousZWScalar = (raw: string): boolean => {
+  const text = raw.trim();
+  if (resolveZWScalar(text, undefined, true).type !== 'string') return false;
+  return /^(true|false|null)$/i.test(text) || NUMBER_LIKE_REGEX.test(text);
+};
+
+// The typed scalar of an element with a string value (resolved leniently for trees that
+// were not built by the parser), or undefined for sections, lists and flow collections.
+export const getZWScalar = (element: ZWNode | ZWListItem): ZWScalar | undefined => {
+  if (typeof element.value !== 'string') return undefined;
+  return element.scalar ?? resolveZWScalar(element.value, element.scalarStyle);
+};
+
+// The text of a scalar the way a reader sees it: quotes removed, numbers as written.
+export const getZWScalarText = (scalar: ZWScalar): string =>
+  scalar.type === 'string' ? String(scalar.value) : scalar.raw.trim();
+
+export const getZWChildren = (element: ZWElement): ZWElement[] =>
+  Array.isArray(element.value) ? (element.value as ZWElement[]) : [];
+
+export const isZWNode = (element: ZWElement): element is ZWNode => element.kind === 'node';
+
+export const findZWChild = (element: ZWElement, key: string): ZWNode | undefined =>
+  getZWChildren(element).find((child): child is ZWNode => isZWNode(child) && child.key === key);
+
+// The element under `root` that holds `element` among its children.
+export const findZWParent = (root: ZWElement, element: ZWElement): ZWElement | undefined => {
+  for (const child of getZWChildren(root)) {
+    if (child === element) return root;
+    const parent = findZWParent(child, element);
+    if (parent) return parent;
   }
+  return undefined;
+};
+
+// Sections hold keys and lists hold items; an empty container can be either unless its
+// brackets say otherwise. A key written with nothing after it is an empty section.
+export const isZWSection = (element: ZWElement): boolean =>
+  element.value === undefined || (Array.isArray(element.value) && element.flowStyle !== 'list' && getZWChildren(element).every(isZWNode));
+
+export const isZWList = (element: ZWElement): boolean =>
+  Array.isArray(element.value) && element.flowStyle !== 'map' && !getZWChildren(element).some(isZWNode);
+
+const BLOCK_HEADER_REGEX = /^([|>])([+-]?)$/;
 
-  const stripMarkdownFences = (input: string): string => {
-    const trimmed = input.trim();
-    const lines = trimmed.split('\n');
-    if (lines.length >= 2 && /^```(?:zw)?\s*$/i.test(lines[0]) && lines[lines.length - 1].trim() === '```') {
-      return lines.slice(1, -1).join('\n');
+// Builds the text of a "|" or ">" block from its lines, already stripped of the block
+// indentation. Chomping follows YAML: by default the text ends with a single newline,
+// "-" drops it and "+" also keeps the blank lines at the end of the block.
+const buildBlockScalar = (blockLines: string[], style: ZWScalarStyle, chomping: string): string => {
+  let bodyEnd = blockLines.length;
+  while (bodyEnd > 0 && blockLines[bodyEnd - 1] === '') bodyEnd--;
+  const body = blockLines.slice(0, bodyEnd);
+  if (body.length === 0) return chomping === '+' ? '\n'.repeat(blockLines.length) : '';
+
+  let text = body[0];
+  for (let i = 1; i < body.length; i++) {
+    const line = body[i];
+    const previous = body[i - 1];
+    if (style === 'literal') {
+      text += `\n${line}`;
+    } else if (line === '') {
+      text += '\n'; // Each blank line in a folded block stands for one line break
+    } else if (previous === '') {
+      text += line;
+    } else if (/^\s/.test(line) || /^\s/.test(previous)) {
+      text += `\n${line}`; // More-indented lines are not folded
+    } else {
+      text += ` ${line}`;
     }
-    return input;
+  }
+
+  if (chomping === '-') return text;
+  if (chomping === '+') return text + '\n'.repeat(blockLines.length - bodyEnd + 1);
+  return `${text}\n`;
+};
+
+// Span covering columns [startColumn, endColumn) of a source line (0-based columns).
+const lineSpan = (line: SourceLine, startColumn: number, endColumn: number): ZWSpan => ({
+  start: { line: line.lineNumber, column: startColumn + 1, offset: line.offset + startColumn },
+  end: { line: line.lineNumber, column: endColumn + 1, offset: line.offset + endColumn },
+});
+
+interface FlowCollection {
+  value: ZWNode[] | ZWListItem[];
+  flowStyle: ZWFlowStyle;
+}
+
+class FlowSyntaxError extends Error {}
+
+// Parses an inline flow collection such as `["discovery", "mystery"]` or
+// `{ NAME: "Eva", TAGS: [a, b] }`, nested to any depth. `text` must hold exactly the
+// collection and start at `column` of `line`. Quoted elements may contain commas and
+// brackets; they keep their quotes, like block values do. Throws FlowSyntaxError when
+// `text` is not a single well-formed collection.
+const parseFlowCollection = (
+  line: SourceLine,
+  text: string,
+  column: number,
+  depth: number,
+  delimiter: string
+): FlowCollection => {
+  let pos = 0;
+  const spanOf = (start: number, end: number) => lineSpan(line, column + start, column + end);
+  const skipSpace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+  const expect = (char: string) => {
+    if (text[pos] !== char) throw new FlowSyntaxError(`Expected "${char}" at column ${column + pos + 1}`);
+    pos++;
   };
 
-  zwString = stripMarkdownFences(zwString);
+  // A quoted or plain scalar; plain scalars run up to the next terminator character.
+  const parseScalar = (terminators: string): string => {
+    const start = pos;
+    if (text[pos] === '"' || text[pos] === "'") {
+      const quote = text[pos++];
+      while (pos < text.length && text[pos] !== quote) {
+        if (text[pos] === '\\') pos++;
+        pos++;
+      }
+      expect(quote);
+      return text.substring(start, pos);
+    }
+    while (pos < text.length && !terminators.includes(text[pos])) pos++;
+    const plain = text.substring(start, pos).trim();
+    if (!plain) throw new FlowSyntaxError(`Missing value at column ${column + start + 1}`);
+    return plain;
+  };
 
-  const lines = zwString.split('\n').filter(line => line.trim() !== '' && !line.trim().startsWith('#'));
-  if (lines.length === 0) return null;
+  const parseElement = (elementDepth: number, terminators: string) => {
+    skipSpace();
+    const start = pos;
+    if (text[pos] === '[' || text[pos] === '{') {
+      const collection = text[pos] === '[' ? parseList(elementDepth) : parseMap(elementDepth);
+      return { ...collection, start, end: pos };
+    }
+    const raw = parseScalar(terminators);
+    return { value: raw, flowStyle: undefined, start, end: start + raw.length };
+  };
 
-  // Root node type always uses ':', as per ZW convention for packet types.
-  const rootLineRegex = /^([A-Z0-9_-]+(?:-[A-Z0-9_-]+)*):\s*$/i;
-  const rootMatch = lines[0].match(rootLineRegex);
+  // Consumes the separator after an element; returns true once the collection is closed.
+  const endOfElement = (closing: string): boolean => {
+    skipSpace();
+    if (text[pos] === closing) {
+      pos++;
+      return true;
+    }
+    expect(',');
+    skipSpace();
+    if (text[pos] === closing) { // Trailing comma
+      pos++;
+      return true;
+    }
+    return false;
+  };
 
-  if (!rootMatch) {
-    return {
-      key: 'Error: Invalid Root',
-      value: `Packet must start with a ZW Type (e.g., ZW-REQUEST:). First line encountered: "${lines[0]}"`,
-      depth: 0
-    };
+  const parseList = (listDepth: number): FlowCollection => {
+    expect('[');
+    const items: ZWListItem[] = [];
+    skipSpace();
+    if (text[pos] === ']') {
+      pos++;
+      return { value: items, flowStyle: 'list' };
+    }
+    let closed = false;
+    while (!closed) {
+      const element = parseElement(listDepth + 1, ',]');
+      items.push({
+        kind: 'item',
+        value: element.value,
+        depth: listDepth + 1,
+        delimiter,
+        span: spanOf(element.start, element.end),
+        valueSpan: spanOf(element.start, element.end),
+        flowStyle: element.flowStyle,
+      });
+      closed = endOfElement(']');
+    }
+    return { value: items, flowStyle: 'list' };
+  };
+
+  const parseMap = (mapDepth: number): FlowCollection => {
+    expect('{');
+    const entries: ZWNode[] = [];
+    skipSpace();
+    if (text[pos] === '}') {
+      pos++;
+      return { value: entries, flowStyle: 'map' };
+    }
+    let closed = false;
+    while (!closed) {
+      skipSpace();
+      const keyMatch = text.substring(pos).match(FLOW_KEY_REGEX);
+      if (!keyMatch) throw new FlowSyntaxError(`Expected a key at column ${column + pos + 1}`);
+      const keyStart = pos;
+      pos += keyMatch[0].length;
+      skipSpace();
+      if (!text.startsWith(delimiter, pos)) throw new FlowSyntaxError(`Expected "${delimiter}" at column ${column + pos + 1}`);
+      pos += delimiter.length;
+      const element = parseElement(mapDepth + 1, ',}');
+      entries.push({
+        kind: 'node',
+        key: unquoteZWString(keyMatch[0]),
+        value: element.value,
+        depth: mapDepth + 1,
+        delimiter,
+        span: spanOf(keyStart, element.end),
+        keySpan: spanOf(keyStart, keyStart + keyMatch[0].length),
+        valueSpan: spanOf(element.start, element.end),
+        flowStyle: element.flowStyle,
+      });
+      closed = endOfElement('}');
+    }
+    return { value: entries, flowStyle: 'map' };
+  };
+
+  const collection = text[0] === '[' ? parseList(depth) : parseMap(depth);
+  skipSpace();
+  if (pos !== text.length) throw new FlowSyntaxError(`Unexpected text after the closing bracket at column ${column + pos + 1}`);
+  return collection;
+};
+
+const toSourceLines = (zwString: string): SourceLine[] => {
+  let offset = 0;
+  const rawLines = zwString.split('\n').map((text, index) => {
+    const line = { text, lineNumber: index + 1, offset };
+    offset += text.length + 1;
+    return line;
+  });
+
+  // Strip a surrounding ```zw ... ``` fence (as often produced by LLMs) but keep the
+  // original line numbers of the content inside it.
+  const contentLines = rawLines.filter(l => l.text.trim() !== '');
+  if (
+    contentLines.length >= 2 &&
+    /^```(?:zw)?\s*$/i.test(contentLines[0].text.trim()) &&
+    contentLines[contentLines.length - 1].text.trim() === '```'
+  ) {
+    const first = contentLines[0].lineNumber;
+    const last = contentLines[contentLines.length - 1].lineNumber;
+    return rawLines.filter(l => l.lineNumber > first && l.lineNumber < last);
+  }
+  return rawLines;
+};
+
+const isCommentLine = (line: SourceLine): boolean => line.text.trim().startsWith('#');
+const commentText = (line: SourceLine): string => line.text.trim().substring(1).trim();
+
+// The first indented line decides the style: tabs, or its number of spaces as the width.
+const detectIndentStyle = (lines: SourceLine[]): ZWIndentStyle => {
+  for (const line of lines) {
+    if (line.text.trim() === '' || isCommentLine(line)) continue;
+    const leading = line.text.match(/^[ \t]*/)![0];
+    if (leading.startsWith('\t')) return { width: DEFAULT_ZW_INDENT_WIDTH, useTabs: true };
+    if (leading.length > 0) return { width: leading.length, useTabs: false };
   }
-  
+  return { width: DEFAULT_ZW_INDENT_WIDTH, useTabs: false };
+};
+
+const resolveIndentStyle = (lines: SourceLine[], options?: ZWParseOptions): ZWIndentStyle => {
+  const detected = detectIndentStyle(lines);
+  return options?.indentWidth && options.indentWidth > 0 ? { ...detected, width: options.indentWidth } : detected;
+};
+
+export const detectZWIndentation = (zwString: string): ZWIndentStyle => detectIndentStyle(toSourceLines(zwString));
+
+// Reports from a packet or document while it is being built.
+interface BuildHooks {
+  onElementComplete?: (element: ZWNode | ZWListItem) => void;
+  onDiagnostic?: (diagnostic: ZWDiagnostic) => void;
+}
+
+interface PacketBuilder {
+  addLine: (line: SourceLine) => void;
+  hasContent: () => boolean; // True once the packet's type line (or first content line) was seen
+  current: () => ZWParseResult; // The tree so far, including open elements
+  openElements: () => Array<ZWNode | ZWListItem>; // Elements later lines can still change, outermost first
+  finish: () => ZWParseResult;
+}
+
+// Builds one packet from source lines fed one at a time, so the same code serves complete
+// input and streamed input. Spans and diagnostics refer to the positions recorded on the
+// lines, so a packet cut out of a larger document keeps them. Blank lines must be passed
+// too, because they are part of the text of "|" and ">" blocks. An element is complete
+// (and reported through `hooks`) once no later line can change it.
+const createPacketBuilder = (
+  indentStyleFor: (line: SourceLine) => ZWIndentStyle,
+  options?: ZWParseOptions,
+  hooks: BuildHooks = {}
+): PacketBuilder => {
+  const diagnostics: ZWDiagnostic[] = [];
   const effectiveDelimiter = options?.delimiter || ':';
   const escapedDelimiter = escapeRegExp(effectiveDelimiter);
+  let indentStyle: ZWIndentStyle;
+  let rootNode: ZWNode | null = null;
+  let rootLine: SourceLine | null = null;
+  const rootComments: string[] = [];
+  let finished = false;
+
+  const pushDiagnostic = (diagnostic: ZWDiagnostic) => {
+    diagnostics.push(diagnostic);
+    hooks.onDiagnostic?.(diagnostic);
+  };
+  const report = (severity: ZWDiagnosticSeverity, code: ZWDiagnostic['code'], message: string, line: SourceLine) => {
+    pushDiagnostic({ severity, code, message, line: line.lineNumber, column: getIndentation(line.text) + 1 });
+  };
+
+  // Full-line comments seen since the last element; they belong to the next one.
+  let pendingComments: string[] = [];
+  const attachComments = (element: ZWNode | ZWListItem, inlineComment?: string) => {
+    if (pendingComments.length > 0) element.leadingComments = pendingComments;
+    if (inlineComment !== undefined) element.inlineComment = inlineComment;
+    pendingComments = [];
+  };
+
+  // Open containers, innermost last. A list item joins the stack when it owns nested
+  // content, e.g. "- NAME: Keen" followed by indented "ROLE: ..." lines.
+  const stack: Array<ZWNode | ZWListItem> = [];
+
+  // A "|" or ">" value still collecting its lines: every line that is blank or indented
+  // deeper than `ownerIndent`.
+  let openBlock: { target: ZWNode | ZWListItem; header: RegExpMatchArray; ownerIndent: number; lines: SourceLine[] } | null = null;
+
+  // The latest plain scalar. Unkeyed lines may still be appended to it until another
+  // element starts or its container closes.
+  let pendingScalar: ZWNode | ZWListItem | null = null;
+
+  // Types are resolved as elements complete, since flow collections, blocks and
+  // continuation lines all rewrite values while the packet is read.
+  const resolveScalar = (element: ZWNode | ZWListItem, value: string) => {
+    element.scalar = resolveZWScalar(value, element.scalarStyle, options?.strict);
+    if (options?.strict && !element.scalarStyle && isAmbiguousZWScalar(value)) {
+      const text = value.trim();
+      const number = Number(text.replace(/_/g, ''));
+      const typed = /^(true|false|null)$/i.test(text) ? text.toLowerCase() : Number.isFinite(number) ? String(number) : undefined;
+      const position = (element.valueSpan ?? element.span)?.start;
+      pushDiagnostic({
+        severity: 'error',
+        code: 'ambiguous-scalar',
+        message: `Value "${text}" is ambiguous in strict mode; ${typed !== undefined ? `write ${typed} for the typed value, or ` : ''}quote it to keep it as text.`,
+        line: position?.line ?? (rootLine as SourceLine).lineNumber,
+        column: position?.column ?? 1,
+      });
+    }
+  };
+
+  const completeElement = (element: ZWNode | ZWListItem) => {
+    if (element === pendingScalar) pendingScalar = null;
+    if (typeof element.value === 'string') {
+      resolveScalar(element, element.value);
+    } else if (element.flowStyle) {
+      // The elements of a flow collection are complete along with it.
+      (element.value as Array<ZWNode | ZWListItem>).forEach(completeElement);
+    }
+    hooks.onElementComplete?.(element);
+  };
+
+  const settlePendingScalar = () => {
+    if (pendingScalar) completeElement(pendingScalar);
+  };
+
+  // Extends every open container to `end`.
+  const extendOpenContainers = (end: ZWPosition) => {
+    stack.forEach(openContainer => {
+      if (openContainer.span) openContainer.span = { start: openContainer.span.start, end };
+    });
+  };
+
+  // Regex using the effective delimiter for children ("KEY: value" or a bare "KEY:" section)
+  const keyValueRegex = new RegExp(`^(${ZW_KEY_PATTERN})${escapedDelimiter}\\s*(.*)$`, 'u');
+
+  // Replaces an inline "[...]" or "{...}" value on `target` with the parsed collection.
+  // Values that merely start with a bracket but are not well-formed stay plain strings.
+  const applyFlowValue = (target: ZWNode | ZWListItem, line: SourceLine) => {
+    const text = target.value;
+    if (typeof text !== 'string' || !target.valueSpan || !/^[[{]/.test(text)) return;
+    try {
+      const collection = parseFlowCollection(line, text, target.valueSpan.start.column - 1, target.depth, effectiveDelimiter);
+      target.value = collection.value;
+      target.flowStyle = collection.flowStyle;
+    } catch (error) {
+      if (!(error instanceof FlowSyntaxError)) throw error;
+      pushDiagnostic({
+        severity: 'warning',
+        code: 'invalid-flow',
+        message: `Value starts like an inline ${text[0] === '[' ? 'list' : 'map'} but is not well-formed (${error.message}); it was kept as text.`,
+        line: line.lineNumber,
+        column: target.valueSpan.start.column,
+      });
+    }
+  };
+
+  // Parses a "KEY: value" or "KEY:" entry that starts at `column` of `line` and runs to
+  // the end of the line. Sections get an empty child array, ready to be filled.
+  const parseKeyEntry = (line: SourceLine, text: string, column: number, depth: number): ZWNode | null => {
+    const match = text.match(keyValueRegex);
+    if (!match) return null;
+    const inlineValue = match[2] || '';
+    const entryEnd = column + text.length;
+    const entry: ZWNode = {
+      kind: 'node',
+      key: unquoteZWString(match[1]), // Quoted keys are stored without their quotes
+      value: inlineValue === '' ? [] : inlineValue,
+      depth: depth,
+      delimiter: effectiveDelimiter,
+      span: lineSpan(line, column, entryEnd),
+      keySpan: lineSpan(line, column, column + match[1].length),
+      valueSpan: inlineValue ? lineSpan(line, entryEnd - inlineValue.length, entryEnd) : undefined,
+    };
+    applyFlowValue(entry, line);
+    return entry;
+  };
+
+  // Only block sections and block items take the following indented lines as children;
+  // flow collections are complete on their own line.
+  const opensBlock = (element: ZWNode | ZWListItem): boolean =>
+    Array.isArray(element.value) && !element.flowStyle;
+
+  // Column where the content of an open "- KEY: value" item starts. Keys aligned with that
+  // first key (and their children) count levels from there rather than from column 0,
+  // which matters when the indent width is not 2.
+  const itemContentColumns = new WeakMap<ZWListItem, number>();
+  const indentBase = (columns: number): number =>
+    stack.reduce((base, element) => {
+      const contentColumn = itemContentColumns.get(element as ZWListItem);
+      return contentColumn !== undefined && contentColumn <= columns ? Math.max(base, contentColumn) : base;
+    }, 0);
+
+  // Called for an element whose value was written on its own line: a "|" or ">" header
+  // opens a block, which reads the lines indented deeper than `ownerIndent`; other scalars
+  // stay pending; flow collections are done.
+  const settleInlineValue = (target: ZWNode | ZWListItem, ownerIndent: number) => {
+    const header = typeof target.value === 'string' ? target.value.match(BLOCK_HEADER_REGEX) : null;
+    if (header) {
+      openBlock = { target, header, ownerIndent, lines: [] };
+    } else if (typeof target.value === 'string') {
+      pendingScalar = target;
+    } else {
+      completeElement(target);
+    }
+  };
+
+  // Indentation is compared in columns (see indentColumns) so tab-indented blocks work too.
+  const closeBlock = () => {
+    if (!openBlock) return;
+    const { target, header, lines: blockLines } = openBlock;
+    openBlock = null;
+    const contentLines = blockLines.filter(line => line.text.trim() !== '');
+    // The block's own indentation is that of its least indented line; deeper lines keep the rest.
+    const blockIndent = Math.min(...contentLines.map(line => indentColumns(line.text, indentStyle)));
 
-  const rootNode: ZWNode = { key: rootMatch[1], value: [], depth: 0, delimiter: effectiveDelimiter };
-  const stack: Array<ZWNode> = [rootNode];
+    target.scalarStyle = header[1] === '|' ? 'literal' : 'folded';
+    target.value = buildBlockScalar(
+      blockLines.map(line => (line.text.trim() === '' ? '' : stripIndentColumns(line.text, blockIndent, indentStyle).trimEnd())),
+      target.scalarStyle,
+      header[2]
+    );
+    if (contentLines.length > 0) {
+      const lastLine = contentLines[contentLines.length - 1];
+      const blockEnd = lineSpan(lastLine, lastLine.text.trimEnd().length, lastLine.text.trimEnd().length).end;
+      const firstTextColumn = getIndentation(contentLines[0].text);
+      target.valueSpan = { start: lineSpan(contentLines[0], firstTextColumn, firstTextColumn).start, end: blockEnd };
+      if (target.span) target.span = { start: target.span.start, end: blockEnd };
+      extendOpenContainers(blockEnd);
+    }
+    completeElement(target);
+  };
 
-  // Regexes using the effective delimiter for children
-  const sectionRegex = new RegExp(`^([A-Za-z0-9_]+)${escapedDelimiter}\\s*$`);
-  const keyValueRegex = new RegExp(`^([A-Za-z0-9_]+)${escapedDelimiter}\\s*(.*)$`);
+  // Sets up the root from the packet's first content line. Returns false when that line is
+  // not a ZW Type line and still has to be read as content.
+  const startRoot = (line: SourceLine): boolean => {
+    rootLine = line;
+    const rootLineParts = splitZWInlineComment(line.text.trim());
+    const rootMatch = rootLineParts.content.match(ROOT_LINE_REGEX);
+    let root: ZWNode;
+    if (rootMatch) {
+      const rootIndent = getIndentation(line.text);
+      root = {
+        kind: 'node',
+        key: rootMatch[1],
+        value: [],
+        depth: 0,
+        delimiter: effectiveDelimiter,
+        span: lineSpan(line, rootIndent, rootIndent + rootLineParts.content.length),
+        keySpan: lineSpan(line, rootIndent, rootIndent + rootMatch[1].length),
+      };
+      if (rootLineParts.comment !== undefined) root.inlineComment = rootLineParts.comment;
+    } else {
+      // Keep going with an anonymous root so the rest of the packet can still be checked.
+      report('error', 'invalid-root', `Packet must start with a ZW Type (e.g., ZW-REQUEST:). First line encountered: "${line.text.trim()}"`, line);
+      root = { kind: 'node', key: '', value: [], depth: 0, delimiter: effectiveDelimiter, span: lineSpan(line, 0, 0) };
+    }
+    if (rootComments.length > 0) root.leadingComments = [...rootComments];
+    rootNode = root;
+    stack.push(root);
+    return rootMatch !== null;
+  };
 
+  const readContentLine = (line: SourceLine) => {
+    if (isCommentLine(line)) {
+      pendingComments.push(commentText(line));
+      return;
+    }
+    const { content: trimmedLine, comment: inlineComment } = splitZWInlineComment(line.text.trim());
+    const currentIndent = getIndentation(line.text);
+    const contentEnd = currentIndent + trimmedLine.length;
+    const fullLineSpan = lineSpan(line, currentIndent, contentEnd);
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmedLine = line.trim();
-    const currentIndent = getIndentation(line);
-    // Assuming 2 spaces for indentation depth, adjust if ZW spec allows others
-    const depth = Math.max(1, currentIndent / 2); 
+    const currentColumns = indentColumns(line.text, indentStyle);
+    const leading = line.text.substring(0, currentIndent);
+    // Spaces after tabs are only expected to line keys up under a "- KEY:" item.
+    const alignsWithItem = currentColumns > 0 && currentColumns === indentBase(currentColumns);
+    if (/ \t/.test(leading) || (leading.includes('\t') && leading.includes(' ') && !alignsWithItem)) {
+      report('warning', 'mixed-indentation', 'Indentation mixes tabs and spaces; nesting may be wrong.', line);
+    } else if (currentIndent > 0 && leading.includes('\t') !== indentStyle.useTabs) {
+      report('warning', 'mixed-indentation', `Line is indented with ${indentStyle.useTabs ? 'spaces' : 'tabs'}, but the packet is indented with ${indentStyle.useTabs ? 'tabs' : 'spaces'}.`, line);
+    } else if ((currentColumns - indentBase(currentColumns)) % indentStyle.width !== 0) {
+      report('warning', 'odd-indentation', `Indentation of ${currentIndent} spaces is not a multiple of ${indentStyle.width}; nesting may be wrong.`, line);
+    }
+    const depth = Math.max(1, currentColumns / indentStyle.width);
 
     while (stack.length > 1) {
         const currentParentOnStack = stack[stack.length - 1];
         if (depth > currentParentOnStack.depth) {
-            break; 
+            break;
         }
-        stack.pop();
-    }
-    
-    const parentNode = stack[stack.length - 1];
-    // Ensure parentNode.value is initialized as an array if it's meant to hold children
-    if (parentNode.value === undefined || typeof parentNode.value === 'string') {
-        parentNode.value = [];
+        // A closed container can no longer change, and neither can the scalar inside it.
+        settlePendingScalar();
+        completeElement(stack.pop() as ZWNode | ZWListItem);
     }
 
+    const parent = stack[stack.length - 1];
+    // Ensure parent.value is initialized as an array if it's meant to hold children
+    if (parent.value === undefined || typeof parent.value === 'string') {
+        parent.value = [];
+    }
+    const siblings = parent.value as Array<ZWNode | ZWListItem>;
+    let attached = true;
 
-    if (trimmedLine.startsWith('- ')) {
-      const itemContent = trimmedLine.substring(2).trim();
-      if (!Array.isArray(parentNode.value)) {
-         // This case should ideally be prevented by initialization above,
-         // but as a safeguard:
-         console.warn("Parent node value is not an array for list item:", parentNode);
-         parentNode.value = [];
-      }
-      
-      const listItem: ZWListItem = { value: itemContent, depth: depth, delimiter: effectiveDelimiter };
-      // Regex for key-value list items, also uses the effectiveDelimiter
-      const listItemKvRegex = new RegExp(`^([A-Za-z0-9_]+)${escapedDelimiter}\\s*(.*)$`);
-      const kvMatch = itemContent.match(listItemKvRegex);
+    if (trimmedLine.startsWith('- ') || trimmedLine === '-') {
+      settlePendingScalar();
+      const itemContent = trimmedLine.substring(1).trim();
+      const itemContentStart = contentEnd - itemContent.length;
+      const listItem: ZWListItem = {
+        kind: 'item',
+        value: itemContent,
+        depth: depth,
+        delimiter: effectiveDelimiter,
+        span: fullLineSpan,
+        markerSpan: lineSpan(line, currentIndent, currentIndent + 1),
+        valueSpan: itemContent ? lineSpan(line, itemContentStart, contentEnd) : undefined,
+      };
+      // Content after the marker is nested under the marker by its column ("- " is one
+      // level at width 2), which is also where continuation keys of the same item go.
+      const contentColumns = currentColumns + (itemContentStart - currentIndent);
+      const firstEntry = itemContent ? parseKeyEntry(line, itemContent, itemContentStart, depth + (itemContentStart - currentIndent) / indentStyle.width) : null;
 
-      if(kvMatch){
+      if (firstEntry) {
+        // The item is an object; its first key is written inline after the marker.
         listItem.isKeyValue = true;
-        listItem.itemKey = kvMatch[1];
-        listItem.value = kvMatch[2] || ''; 
+        listItem.itemKey = firstEntry.key;
+        listItem.keySpan = firstEntry.keySpan;
+        listItem.valueSpan = firstEntry.valueSpan;
+        listItem.value = [firstEntry];
+        attachComments(listItem);
+        if (inlineComment !== undefined) firstEntry.inlineComment = inlineComment;
+        itemContentColumns.set(listItem, contentColumns);
+        stack.push(listItem);
+        if (opensBlock(firstEntry)) stack.push(firstEntry);
+        else settleInlineValue(firstEntry, contentColumns);
+      } else if (!itemContent) {
+        // A bare "-" introduces an item whose content is entirely on the following lines.
+        listItem.value = [];
+        attachComments(listItem, inlineComment);
+        stack.push(listItem);
+      } else {
+        attachComments(listItem, inlineComment);
+        applyFlowValue(listItem, line);
+        settleInlineValue(listItem, currentColumns);
       }
-      (parentNode.value as ZWListItem[]).push(listItem);
+      siblings.push(listItem);
 
     } else {
-      const sectionMatch = trimmedLine.match(sectionRegex); 
-      const keyValueMatch = trimmedLine.match(keyValueRegex);
+      const entry = parseKeyEntry(line, trimmedLine, currentIndent, depth);
 
-      if (!Array.isArray(parentNode.value)) {
-         // Safeguard, similar to above
-         console.warn("Parent node value is not an array for node item:", parentNode);
-         parentNode.value = [];
-      }
-
-      if (sectionMatch) { 
-        const newNode: ZWNode = { key: sectionMatch[1], value: [], depth: depth, delimiter: effectiveDelimiter };
-        (parentNode.value as ZWNode[]).push(newNode);
-        stack.push(newNode);
-      } else if (keyValueMatch) { 
-        const newNode: ZWNode = { key: keyValueMatch[1], value: keyValueMatch[2] || '', depth: depth, delimiter: effectiveDelimiter };
-        (parentNode.value as ZWNode[]).push(newNode);
-      } else if (trimmedLine && Array.isArray(parentNode.value) && parentNode.value.length > 0) {
-          // Handling multi-line string values for the last item
-          const lastChild = parentNode.value[parentNode.value.length - 1];
-          
-          if (lastChild && typeof lastChild.value === 'string') { // Applies to both ZWNode and ZWListItem with string value
-             (lastChild.value as string) += `\n${trimmedLine}`;
-          } else {
-            // This could be an error or unformatted text. For now, we'll ignore it if it doesn't match known patterns.
-            // console.warn(`Unhandled line in ZW parsing: "${trimmedLine}" under parent:`, parentNode.key);
+      if (entry) {
+        settlePendingScalar();
+        attachComments(entry, inlineComment);
+        siblings.push(entry);
+        if (opensBlock(entry)) stack.push(entry);
+        else settleInlineValue(entry, currentColumns);
+      } else if (currentIndent === 0 && ROOT_LINE_REGEX.test(trimmedLine)) {
+        report('error', 'unexpected-root', `Only one root packet is allowed; found another ZW Type "${trimmedLine}". Its fields are attached to the first packet.`, line);
+        attached = false;
+      } else if (siblings.length > 0 && typeof siblings[siblings.length - 1].value === 'string' && !siblings[siblings.length - 1].scalarStyle) {
+          // Handling multi-line string values for the last item (applies to both ZWNode and ZWListItem)
+          const lastChild = siblings[siblings.length - 1];
+          lastChild.value = `${lastChild.value}\n${trimmedLine}`;
+          if (inlineComment !== undefined) {
+            lastChild.inlineComment = lastChild.inlineComment === undefined ? inlineComment : `${lastChild.inlineComment} ${inlineComment}`;
           }
-      } else if (trimmedLine) {
+          lastChild.valueSpan = { start: (lastChild.valueSpan ?? fullLineSpan).start, end: fullLineSpan.end };
+          if (lastChild.span) lastChild.span = { start: lastChild.span.start, end: fullLineSpan.end };
+          report('info', 'unmatched-content', `Line has no key; it was appended to the previous value as a continuation. Use "KEY: |" for multi-line text.`, line);
+      } else {
         // Line with content that doesn't fit other patterns and no clear last child to append to.
-        // console.warn(`Orphaned line in ZW parsing: "${trimmedLine}"`);
+        report('warning', 'orphan-line', `Line could not be attached to any key or list and was ignored: "${trimmedLine}"`, line);
+        attached = false;
+      }
+    }
+
+    // Every open ancestor now extends at least to the end of this line; a block started
+    // on it extends them further once it is closed.
+    if (attached) extendOpenContainers(fullLineSpan.end);
+  };
+
+  const addLine = (line: SourceLine) => {
+    if (finished) return;
+    indentStyle = indentStyleFor(line);
+    if (!rootNode) {
+      if (line.text.trim() === '') return;
+      if (isCommentLine(line)) {
+        rootComments.push(commentText(line));
+        return;
       }
+      if (startRoot(line)) return;
+    }
+    if (openBlock) {
+      if (line.text.trim() === '' || indentColumns(line.text, indentStyle) > openBlock.ownerIndent) {
+        openBlock.lines.push(line);
+        return;
+      }
+      closeBlock();
+    }
+    if (line.text.trim() === '') return;
+    readContentLine(line);
+  };
+
+  const finish = (): ZWParseResult => {
+    if (!rootNode || finished) return { root: rootNode, diagnostics };
+    finished = true;
+    closeBlock();
+    settlePendingScalar();
+    if (pendingComments.length > 0) rootNode.trailingComments = pendingComments;
+    while (stack.length > 0) completeElement(stack.pop() as ZWNode | ZWListItem);
+    // Type checks report as elements complete, which can be after later lines were read.
+    diagnostics.sort((a, b) => a.line - b.line);
+    return { root: rootNode, diagnostics };
+  };
+
+  return {
+    addLine,
+    hasContent: () => rootNode !== null,
+    current: () => ({ root: rootNode, diagnostics }),
+    openElements: () =>
+      [...stack, openBlock?.target, pendingScalar].filter((element): element is ZWNode | ZWListItem => !!element),
+    finish,
+  };
+};
+
+// Parses one packet from already split source lines.
+const parsePacketLines = (lines: SourceLine[], indentStyle: ZWIndentStyle, options?: ZWParseOptions): ZWParseResult => {
+  const builder = createPacketBuilder(() => indentStyle, options);
+  lines.forEach(builder.addLine);
+  return builder.finish();
+};
+
+export const parseZWWithDiagnostics = (zwString: string, options?: ZWParseOptions): ZWParseResult => {
+  if (!zwString || !zwString.trim()) {
+    return { root: null, diagnostics: [] };
+  }
+  const lines = toSourceLines(zwString);
+  return parsePacketLines(lines, resolveIndentStyle(lines, options), options);
+};
+
+export interface ZWPacket extends ZWParseResult {
+  span: ZWSpan; // From the packet's first line (including comments above its type) to its last
+  separator?: ZWSpan; // The "---" line right before the packet, if it was introduced by one
+}
+
+export interface ZWDocument {
+  packets: ZWPacket[];
+  diagnostics: ZWDiagnostic[]; // Diagnostics of all packets, in document order
+}
+
+const SEPARATOR_LINE_REGEX = /^---\s*$/;
+
+interface DocumentBuildHooks {
+  onElementComplete?: (element: ZWNode | ZWListItem, packetIndex: number) => void;
+  onPacketComplete?: (packet: ZWPacket, packetIndex: number) => void;
+  onDiagnostic?: (diagnostic: ZWDiagnostic) => void;
+}
+
+interface DocumentBuilder {
+  addLine: (line: SourceLine) => void;
+  current: () => { document: ZWDocument; openElements: Array<ZWNode | ZWListItem> };
+  finish: () => ZWDocument;
+}
+
+// Splits a document into packets while its lines are fed in. Packets are separated by
+// "---" lines, or simply follow each other: a ZW Type line at column 0 after a packet's
+// own type line starts the next packet, together with the comments directly above it.
+// Those comments (and blank lines) are held back until the next content line shows which
+// packet they belong to. Stretches with nothing but comments (such as the header of an
+// exported schema file) are not packets.
+const createDocumentBuilder = (options?: ZWParseOptions, hooks: DocumentBuildHooks = {}): DocumentBuilder => {
+  const packets: ZWPacket[] = [];
+  // Detected from the first indented line, so that every packet of the document is read
+  // the same way. Lines before it are not indented, so they do not depend on it.
+  let indentStyle: ZWIndentStyle | null = null;
+  const indentStyleFor = (line: SourceLine): ZWIndentStyle => {
+    if (!indentStyle && line.text.trim() !== '' && !isCommentLine(line) && /^[ \t]/.test(line.text)) {
+      indentStyle = resolveIndentStyle([line], options);
+    }
+    return indentStyle ?? resolveIndentStyle([], options);
+  };
+
+  interface Segment {
+    builder: PacketBuilder;
+    first?: SourceLine; // First and last non-blank lines, for the packet span
+    last?: SourceLine;
+    separator?: ZWSpan;
+  }
+  const startSegment = (separator?: ZWSpan): Segment => ({
+    builder: createPacketBuilder(indentStyleFor, options, {
+      onElementComplete: element => hooks.onElementComplete?.(element, packets.length),
+      onDiagnostic: hooks.onDiagnostic,
+    }),
+    separator,
+  });
+  let segment = startSegment();
+  let heldLines: SourceLine[] = [];
+
+  const feed = (line: SourceLine) => {
+    if (line.text.trim() !== '') {
+      segment.first = segment.first ?? line;
+      segment.last = line;
+    }
+    segment.builder.addLine(line);
+  };
+  const releaseHeldLines = () => {
+    heldLines.forEach(feed);
+    heldLines = [];
+  };
+  const packetSpan = (): ZWSpan => {
+    const first = segment.first as SourceLine;
+    const last = segment.last as SourceLine;
+    return {
+      start: lineSpan(first, 0, 0).start,
+      end: lineSpan(last, last.text.length, last.text.length).end,
+    };
+  };
+  const finishSegment = () => {
+    if (!segment.builder.hasContent()) return;
+    const packet: ZWPacket = { ...segment.builder.finish(), span: packetSpan(), separator: segment.separator };
+    packets.push(packet);
+    hooks.onPacketComplete?.(packet, packets.length - 1);
+  };
+
+  const addLine = (line: SourceLine) => {
+    const trimmed = line.text.trim();
+    const unindented = getIndentation(line.text) === 0;
+    // Only unindented separators count; an indented "---" can be a line of a text block.
+    if (unindented && SEPARATOR_LINE_REGEX.test(trimmed)) {
+      releaseHeldLines();
+      finishSegment();
+      segment = startSegment(lineSpan(line, 0, trimmed.length));
+      return;
+    }
+    if (unindented && ROOT_LINE_REGEX.test(splitZWInlineComment(trimmed).content) && segment.builder.hasContent()) {
+      finishSegment();
+      segment = startSegment();
     }
+    if (trimmed === '' || (unindented && isCommentLine(line))) {
+      heldLines.push(line);
+      return;
+    }
+    releaseHeldLines();
+    feed(line);
+  };
+
+  const documentOf = (openPacket?: ZWPacket): ZWDocument => {
+    const all = openPacket ? [...packets, openPacket] : packets;
+    return { packets: all, diagnostics: all.flatMap(packet => packet.diagnostics) };
+  };
+
+  return {
+    addLine,
+    current: () => segment.builder.hasContent()
+      ? {
+          document: documentOf({ ...segment.builder.current(), span: packetSpan(), separator: segment.separator }),
+          openElements: segment.builder.openElements(),
+        }
+      : { document: documentOf(), openElements: [] },
+    finish: () => {
+      releaseHeldLines();
+      finishSegment();
+      segment = startSegment();
+      return documentOf();
+    },
+  };
+};
+
+// Parses a document holding any number of packets (see createDocumentBuilder).
+export const parseZWDocument = (zwString: string, options?: ZWParseOptions): ZWDocument => {
+  if (!zwString || !zwString.trim()) {
+    return { packets: [], diagnostics: [] };
   }
-  return rootNode;
+  const builder = createDocumentBuilder(options);
+  toSourceLines(zwString).forEach(builder.addLine);
+  return builder.finish();
+};
+
+export interface ZWStreamHandlers {
+  onNodeComplete?: (element: ZWNode | ZWListItem, packetIndex: number) => void;
+  onPacketComplete?: (packet: ZWPacket, packetIndex: number) => void;
+  onDiagnostic?: (diagnostic: ZWDiagnostic) => void; // Lets callers stop a generation early
+}
+
+export interface ZWStreamSnapshot extends ZWDocument {
+  // Elements of the last packet that later input can still change, outermost first.
+  // They are part of the (live) tree in `packets`.
+  openElements: Array<ZWNode | ZWListItem>;
+}
+
+export interface ZWStreamParser {
+  write: (chunk: string) => void;
+  snapshot: () => ZWStreamSnapshot; // Only lines already ended by a line break are parsed
+  end: () => ZWDocument;
+}
+
+// Parses ZW text that arrives in pieces, e.g. token by token from an LLM. Every complete
+// line is read once; the tree grows in place and elements are reported as they complete.
+// The result of end() equals that of parseZWDocument on the whole text, except around
+// markdown fences: an opening ``` line is skipped as soon as it arrives, and a closing one
+// ends the packet text, so that remarks after it are ignored.
+export const createZWStreamParser = (options?: ZWParseOptions, handlers: ZWStreamHandlers = {}): ZWStreamParser => {
+  const builder = createDocumentBuilder(options, {
+    onElementComplete: handlers.onNodeComplete,
+    onPacketComplete: handlers.onPacketComplete,
+    onDiagnostic: handlers.onDiagnostic,
+  });
+  let buffer = '';
+  let offset = 0;
+  let lineNumber = 0;
+  let sawContent = false;
+  let fence: 'none' | 'open' | 'closed' = 'none';
+  let ended: ZWDocument | null = null;
+
+  const addText = (text: string) => {
+    const line: SourceLine = { text, lineNumber: ++lineNumber, offset };
+    offset += text.length + 1;
+    const trimmed = text.trim();
+    if (fence === 'closed') return;
+    if (!sawContent && /^```(?:zw)?\s*$/i.test(trimmed)) {
+      fence = 'open';
+      return;
+    }
+    if (fence === 'open' && trimmed === '```') {
+      fence = 'closed';
+      return;
+    }
+    if (trimmed !== '') sawContent = true;
+    builder.addLine(line);
+  };
+
+  return {
+    write: chunk => {
+      if (ended) return;
+      buffer += chunk;
+      let lineBreak = buffer.indexOf('\n');
+      while (lineBreak !== -1) {
+        addText(buffer.substring(0, lineBreak));
+        buffer = buffer.substring(lineBreak + 1);
+        lineBreak = buffer.indexOf('\n');
+      }
+    },
+    snapshot: () => {
+      const { document, openElements } = builder.current();
+      return { ...document, openElements };
+    },
+    end: () => {
+      if (!ended) {
+        if (buffer !== '') addText(buffer);
+        buffer = '';
+        ended = builder.finish();
+      }
+      return ended;
+    },
+  };
+};
+
+export const parseZW = (zwString: string, options?: ZWParseOptions): ZWNode | null => {
+  return parseZWWithDiagnostics(zwString, options).root;
 };
@@ -0,0 +1,395 @@
+import { ZWNode, ZWListItem, ZWElement, ZWSpan, getZWScalar, resolveZWScalar, unquoteZWString, quoteZWString, getZWChildren, isZWNode, findZWChild, findZWParent, isZWSection, isZWList } from './zwParser';
+import { ZWQueryStep, ZWQueryError, parseZWQuery, queryZW, formatZWPathKey } from './zwQuery';
+import { getZWSignature, alignZWItems } from './zwDiff';
+
+// A STATE-DELTA packet describes changes to another packet, as a list of operations on
+// paths (see zwQuery.ts):
+//
+//   STATE-DELTA:
+//     TARGET: ZW-PLAYER-STATE        # Optional: the packet type the delta applies to
+//     OPS:
+//       - SET: STATS.MOOD            # Replaces the value, or adds the key to its section
+//         VALUE: anxious
+//         WAS: calm                  # Optional (SET, REMOVE, INCREMENT): the expected current value
+//       - REMOVE: STATUS.POISONED
+//       - APPEND: INVENTORY          # Adds VALUE at the end of a list
+//         VALUE: rusty key
+//       - INSERT: QUESTS[0]          # Adds VALUE to a list, before the element at that index
+//         VALUE:
+//           ID: FindTheMap
+//       - INCREMENT: STATS.GOLD      # Adds BY (default 1) to a number
+//         BY: -15
+//
+// A packet may also carry the delta as a STATE-DELTA section. Operations apply in order,
+// each to every element its path selects. An operation that cannot apply to all of them
+// (a missing path, a WAS that does not match, a value of the wrong kind) is skipped as a
+// whole and reported as a conflict; the other operations still apply.
+
+export const ZW_DELTA_TYPE = 'STATE-DELTA';
+
+// Thrown for a delta that is not well-formed, as opposed to one that conflicts with its base.
+export class ZWPatchError extends Error {}
+
+export type ZWPatchOpKind = 'set' | 'remove' | 'append' | 'insert' | 'increment';
+
+export interface ZWPatchConflict {
+  op?: number; // 0-based index in OPS; undefined when the delta as a whole does not apply
+  kind?: ZWPatchOpKind;
+  path?: string;
+  message: string;
+  span?: ZWSpan; // The operation in the delta's source
+}
+
+export interface ZWPatchResult {
+  result: ZWNode; // A patched copy; the base packet is left unchanged
+  conflicts: ZWPatchConflict[];
+}
+
+interface ZWPatchOp {
+  kind: ZWPatchOpKind;
+  path: string;
+  steps: ZWQueryStep[];
+  value?: ZWNode;
+  was?: ZWNode;
+  by?: number;
+  span?: ZWSpan;
+}
+
+const OP_KINDS: Record<string, ZWPatchOpKind> = {
+  SET: 'set',
+  REMOVE: 'remove',
+  APPEND: 'append',
+  INSERT: 'insert',
+  INCREMENT: 'increment',
+};
+
+const OP_NAMES = Object.fromEntries(Object.entries(OP_KINDS).map(([name, kind]) => [kind, name])) as Record<ZWPatchOpKind, string>;
+
+// --- Reading a delta ---
+
+const readOp = (item: ZWElement, index: number): ZWPatchOp => {
+  const fields = getZWChildren(item).filter(isZWNode);
+  const position = `Operation ${index + 1}`;
+  const [opField] = fields;
+  const kind = opField && Object.keys(OP_KINDS).includes(opField.key) ? OP_KINDS[opField.key] : undefined;
+  if (isZWNode(item) || !kind) {
+    throw new ZWPatchError(`${position}: expected a list item starting with one of ${Object.keys(OP_KINDS).join(', ')}.`);
+  }
+  if (typeof opField.value !== 'string' || opField.value.trim() === '') {
+    throw new ZWPatchError(`${position}: ${opField.key} needs a path.`);
+  }
+  const path = unquoteZWString(opField.value.trim());
+  let steps: ZWQueryStep[];
+  try {
+    steps = parseZWQuery(path);
+  } catch (error) {
+    if (error instanceof ZWQueryError) throw new ZWPatchError(`${position}: ${error.message}`);
+    throw error;
+  }
+  const op: ZWPatchOp = { kind, path, steps, span: item.span };
+
+  const value = fields.find(field => field.key === 'VALUE');
+  if (kind === 'set' || kind === 'append' || kind === 'insert') {
+    if (!value) throw new ZWPatchError(`${position}: ${opField.key} needs a VALUE.`);
+    op.value = value;
+  }
+  if (kind === 'insert' && steps[steps.length - 1].kind !== 'index') {
+    throw new ZWPatchError(`${position}: the path of INSERT must end with an index, as in LIST[0].`);
+  }
+  op.was = fields.find(field => field.key === 'WAS');
+  if (kind === 'increment') {
+    const by = fields.find(field => field.key === 'BY');
+    const scalar = by && getZWScalar(by);
+    if (by && (scalar?.type !== 'integer' && scalar?.type !== 'float')) {
+      throw new ZWPatchError(`${position}: BY must be a number.`);
+    }
+    op.by = scalar ? (scalar.value as number) : 1;
+  }
+  return op;
+};
+
+const readDelta = (patch: ZWNode): { target?: string; ops: ZWPatchOp[] } => {
+  const delta = patch.key === ZW_DELTA_TYPE ? patch : findZWChild(patch, ZW_DELTA_TYPE);
+  if (!delta) throw new ZWPatchError(`Expected a ${ZW_DELTA_TYPE} packet or section.`);
+  const ops = findZWChild(delta, 'OPS');
+  if (!ops || !Array.isArray(ops.value)) throw new ZWPatchError(`${ZW_DELTA_TYPE} needs an OPS list.`);
+  const target = findZWChild(delta, 'TARGET');
+  return {
+    target: typeof target?.value === 'string' ? unquoteZWString(target.value.trim()) : undefined,
+    ops: getZWChildren(ops).map(readOp),
+  };
+};
+
+// --- Building elements ---
+
+// A copy of `element` placed at `depth`, without source spans (they would point into
+// another text).
+const cloneElement = <T extends ZWElement>(element: T, depth: number): T => {
+  const copy = { ...element, depth };
+  if (Array.isArray(element.value)) copy.value = getZWChildren(element).map(child => cloneElement(child, depth + 1)) as T['value'];
+  delete copy.span;
+  delete copy.keySpan;
+  delete copy.valueSpan;
+  delete (copy as ZWListItem).markerSpan;
+  delete (copy as ZWNode).parent;
+  return copy;
+};
+
+// Inside "[...]" and "{...}" everything is written inline, so nested containers become
+// flow collections and block text becomes a quoted string.
+const toFlow = (element: ZWElement) => {
+  if (Array.isArray(element.value)) {
+    element.flowStyle = getZWChildren(element).some(isZWNode) ? 'map' : 'list';
+    getZWChildren(element).forEach(toFlow);
+  } else if (element.scalarStyle && typeof element.value === 'string') {
+    element.value = quoteZWString(element.value);
+    element.scalarStyle = undefined;
+    element.scalar = resolveZWScalar(element.value);
+  }
+};
+
+// The value of `source` (a VALUE field, or any element) moved onto `target`.
+const assignValue = (target: ZWElement, source: ZWElement) => {
+  const copy = cloneElement(source, target.depth);
+  target.value = copy.value as ZWListItem['value'];
+  target.flowStyle = copy.flowStyle;
+  target.scalarStyle = copy.scalarStyle;
+  target.scalar = copy.scalar;
+  if (!isZWNode(target)) {
+    const first = getZWChildren(target)[0];
+    target.isKeyValue = first && isZWNode(first) ? true : undefined;
+    target.itemKey = first && isZWNode(first) ? first.key : undefined;
+  }
+};
+
+const createNode = (key: string, source: ZWElement, depth: number, inFlow: boolean): ZWNode => {
+  const node: ZWNode = { kind: 'node', key, depth, delimiter: ':' };
+  assignValue(node, source);
+  if (inFlow) toFlow(node);
+  return node;
+};
+
+const createItem = (source: ZWElement, depth: number, inFlow: boolean): ZWListItem => {
+  const item: ZWListItem = { kind: 'item', value: '', depth, delimiter: ':' };
+  assignValue(item, source);
+  if (inFlow) toFlow(item);
+  return item;
+};
+
+const setScalar = (element: ZWElement, raw: string) => {
+  element.value = raw;
+  element.flowStyle = undefined;
+  element.scalarStyle = undefined;
+  element.scalar = resolveZWScalar(raw);
+};
+
+// --- Applying a delta ---
+
+const checkWas = (targets: ZWElement[], op: ZWPatchOp): string | undefined => {
+  if (!op.was) return undefined;
+  const expected = getZWSignature(op.was);
+  return targets.some(target => getZWSignature(target) !== expected)
+    ? `${op.path} no longer has the expected value (WAS).`
+    : undefined;
+};
+
+// Applies one operation to `root`, or returns why it cannot apply (leaving `root` as it was).
+const applyOp = (root: ZWNode, op: ZWPatchOp): string | undefined => {
+  const targets = op.kind === 'insert' ? [] : queryZW(root, op.steps);
+  const mismatch = checkWas(targets, op);
+  if (mismatch) return mismatch;
+
+  switch (op.kind) {
+    case 'set': {
+      if (targets.length > 0) {
+        targets.forEach(target => {
+          assignValue(target, op.value!);
+          if (findZWParent(root, target)?.flowStyle) toFlow(target);
+        });
+        return undefined;
+      }
+      const last = op.steps[op.steps.length - 1];
+      if (last.kind !== 'child' || last.key === null || last.recursive) return `Nothing at ${op.path} to set.`;
+      if (op.was) return `${op.path} does not exist (WAS).`;
+      const sections = op.steps.length === 1 ? [root] : queryZW(root, op.steps.slice(0, -1));
+      if (sections.length === 0) return `The section holding ${op.path} does not exist.`;
+      if (!sections.every(isZWSection)) return `${op.path} cannot be added: its parent is not a section.`;
+      const key = last.key;
+      sections.forEach(section => {
+        section.value = [...(getZWChildren(section) as ZWNode[]), createNode(key, op.value!, section.depth + 1, section.flowStyle !== undefined)];
+      });
+      return undefined;
+    }
+    case 'remove': {
+      if (targets.length === 0) return `Nothing at ${op.path} to remove.`;
+      targets.forEach(target => {
+        const parent = findZWParent(root, target);
+        if (!parent) return;
+        parent.value = getZWChildren(parent).filter(child => child !== target) as ZWListItem['value'];
+        // An empty block container is written "KEY:" and reads back as a section, so a list
+        // emptied here is written as "[]" instead. The packet's own line cannot hold one.
+        if (target.kind === 'item' && parent.value.length === 0 && parent !== root) parent.flowStyle = 'list';
+      });
+      return undefined;
+    }
+    case 'append': {
+      if (targets.length === 0) return `No list at ${op.path} to append to.`;
+      if (!targets.every(isZWList)) return `${op.path} is not a list.`;
+      targets.forEach(list => {
+        list.value = [...(list.value as ZWListItem[]), createItem(op.value!, list.depth + 1, list.flowStyle !== undefined)];
+      });
+      return undefined;
+    }
+    case 'insert': {
+      const index = (op.steps[op.steps.length - 1] as Extract<ZWQueryStep, { kind: 'index' }>).index;
+      const lists = op.steps.length === 1 ? [root] : queryZW(root, op.steps.slice(0, -1));
+      if (lists.length === 0) return `No list at ${op.path} to insert into.`;
+      if (!lists.every(isZWList)) return `${op.path} is not in a list.`;
+      const positions = lists.map(list => (index < 0 ? getZWChildren(list).length + index : index));
+      if (lists.some((list, i) => positions[i] < 0 || positions[i] > getZWChildren(list).length)) {
+        return `${op.path} is past the end of the list.`;
+      }
+      lists.forEach((list, i) => {
+        const items = [...(list.value as ZWListItem[])];
+        items.splice(positions[i], 0, createItem(op.value!, list.depth + 1, list.flowStyle !== undefined));
+        list.value = items;
+      });
+      return undefined;
+    }
+    case 'increment': {
+      if (targets.length === 0) return `Nothing at ${op.path} to increment.`;
+      const scalars = targets.map(getZWScalar);
+      if (scalars.some(scalar => scalar?.type !== 'integer' && scalar?.type !== 'float')) return `${op.path} is not a number.`;
+      targets.forEach((target, i) => setScalar(target, String((scalars[i]!.value as number) + op.by!)));
+      return undefined;
+    }
+  }
+};
+
+// Applies a STATE-DELTA packet (or a packet with a STATE-DELTA section) to a copy of `base`.
+// Throws ZWPatchError when the delta is malformed; conflicts are returned instead.
+export const applyZWPatch = (base: ZWNode, patch: ZWNode): ZWPatchResult => {
+  const { target, ops } = readDelta(patch);
+  const result = cloneElement(base, base.depth);
+  if (target !== undefined && target !== base.key) {
+    return { result, conflicts: [{ message: `The delta targets ${target} packets, not ${base.key}.` }] };
+  }
+  const conflicts: ZWPatchConflict[] = [];
+  ops.forEach((op, index) => {
+    const message = applyOp(result, op);
+    if (message) conflicts.push({ op: index, kind: op.kind, path: op.path, message, span: op.span });
+  });
+  return { result, conflicts };
+};
+
+// --- Generating a delta ---
+
+const joinKey = (path: string, key: string): string => (path === '' ? formatZWPathKey(key) : `${path}.${formatZWPathKey(key)}`);
+
+const scalarField = (key: string, text: string, depth: number): ZWNode => {
+  const raw = /^[\p{L}\p{N}_]/u.test(text) && !/["'#]/.test(text) && resolveZWScalar(text).type === 'string'
+    ? text
+    : quoteZWString(text);
+  return { kind: 'node', key, value: raw, depth, delimiter: ':', scalar: resolveZWScalar(raw) };
+};
+
+// Operations are list items of OPS (depth 2), so their fields sit at depth 3.
+const createOp = (kind: ZWPatchOpKind, path: string, value?: ZWElement): ZWListItem => {
+  const fields = [scalarField(OP_NAMES[kind], path, 3)];
+  if (value) fields.push(createNode('VALUE', value, 3, false));
+  return { kind: 'item', value: fields, depth: 2, delimiter: ':', isKeyValue: true, itemKey: OP_NAMES[kind] };
+};
+
+const hasRepeatedKeys = (element: ZWElement): boolean => {
+  const keys = getZWChildren(element).filter(isZWNode).map(child => child.key);
+  return new Set(keys).size !== keys.length;
+};
+
+const diffSections = (before: ZWElement, after: ZWElement, path: string, ops: ZWListItem[]) => {
+  const oldNodes = getZWChildren(before).filter(isZWNode);
+  const newNodes = getZWChildren(after).filter(isZWNode);
+  oldNodes
+    .filter(node => !newNodes.some(other => other.key === node.key))
+    .forEach(node => ops.push(createOp('remove', joinKey(path, node.key))));
+  newNodes.forEach(node => {
+    const old = oldNodes.find(other => other.key === node.key);
+    if (old) diffElements(old, node, joinKey(path, node.key), ops);
+    else ops.push(createOp('set', joinKey(path, node.key), node));
+  });
+};
+
+// Items are paired up as zwDiff.ts aligns them; paired items are edited in place, and
+// the others are removed or inserted.
+const diffLists = (before: ZWElement, after: ZWElement, path: string, ops: ZWListItem[]) => {
+  const oldItems = getZWChildren(before);
+  const newItems = getZWChildren(after);
+  const pairs = alignZWItems(oldItems, newItems);
+  const kept = new Map<number, number>(pairs.map(([i, j]) => [j, i])); // New index -> old index
+  const keptOld = new Set(pairs.map(([i]) => i));
+
+  // Removals go last-first so that the indexes of the ones still to come stay valid.
+  for (let i = oldItems.length - 1; i >= 0; i--) {
+    if (!keptOld.has(i)) ops.push(createOp('remove', `${path}[${i}]`));
+  }
+  // Every item before `j` is already in place when item `j` is handled.
+  let length = keptOld.size;
+  newItems.forEach((item, j) => {
+    const old = kept.get(j);
+    if (old !== undefined) {
+      diffElements(oldItems[old], item, `${path}[${j}]`, ops);
+    } else {
+      // APPEND needs a path, so items at the end of the packet itself are inserted.
+      ops.push(j === length && path !== '' ? createOp('append', path, item) : createOp('insert', `${path}[${j}]`, item));
+      length++;
+    }
+  });
+};
+
+const diffElements = (before: ZWElement, after: ZWElement, path: string, ops: ZWListItem[]) => {
+  if (getZWSignature(before) === getZWSignature(after)) return;
+  const isScalar = typeof before.value === 'string' || typeof after.value === 'string';
+  const sections = isZWSection(before) && isZWSection(after);
+  const lists = isZWList(before) && isZWList(after);
+  const repeatedKeys = hasRepeatedKeys(before) || hasRepeatedKeys(after);
+  if (isScalar || (!sections && !lists) || (sections && repeatedKeys)) {
+    ops.push(createOp('set', path, after));
+  } else if (sections) {
+    diffSections(before, after, path, ops);
+  } else {
+    diffLists(before, after, path, ops);
+  }
+};
+
+// Builds the STATE-DELTA packet that turns `before` into `after`. Values that differ are
+// changed where they are rather than replaced with their section; keys added to a section
+// go at its end. Throws ZWPatchError for changes a delta cannot express: a different
+// packet type, or a change among repeated top-level keys.
+export const createZWPatch = (before: ZWNode, after: ZWNode): ZWNode => {
+  if (before.key !== after.key) {
+    throw new ZWPatchError(`A delta cannot change the packet type (${before.key} to ${after.key}).`);
+  }
+  const ops: ZWListItem[] = [];
+  const sections = isZWSection(before) && isZWSection(after);
+  if (getZWSignature(before) !== getZWSignature(after)) {
+    if (sections && (hasRepeatedKeys(before) || hasRepeatedKeys(after))) {
+      throw new ZWPatchError(`${before.key} repeats a top-level key, which a delta cannot address.`);
+    }
+    if (sections || (isZWList(before) && isZWList(after))) {
+      diffElements(before, after, '', ops);
+    } else {
+      // Keys replaced by list items or the reverse: clear the packet, then fill it again.
+      ops.push(createOp('remove', '*'));
+      diffElements({ ...after, value: [] }, after, '', ops);
+    }
+  }
+  return {
+    kind: 'node',
+    key: ZW_DELTA_TYPE,
+    depth: 0,
+    delimiter: ':',
+    value: [
+      scalarField('TARGET', before.key, 1),
+      ops.length > 0 ? { kind: 'node', key: 'OPS', value: ops, depth: 1, delimiter: ':' } : { kind: 'node', key: 'OPS', value: [], depth: 1, delimiter: ':', flowStyle: 'list' },
+    ],
+  };
+};
@@ -0,0 +1,111 @@
+import { ZWElement, ZWScalar, getZWScalar, resolveZWScalar, unquoteZWString, quoteZWString, getZWChildren } from './zwParser';
+
+// Paths select elements of a ZW tree, relative to the node they are applied to:
+//
+//   SETTING.MOOD              child MOOD of child SETTING
+//   SEQUENCE[0]               first element of SEQUENCE (negative indexes count from the end)
+//   SEQUENCE[*].ACTOR         ACTOR of every element of SEQUENCE
+//   SETTING.*                 every child of SETTING
+//   ..ACTOR                   every ACTOR at any depth below the node
+//   SEQUENCE[TYPE=DIALOGUE]   elements of SEQUENCE whose TYPE is DIALOGUE ("!=" negates)
+//   SEQUENCE[MOOD]            elements of SEQUENCE that have a MOOD
+//   "user.id"                 keys holding "." or other special characters are quoted
+//
+// Predicate values are typed like ZW values, so [COUNT=3] matches the number 3 and
+// [COUNT="3"] the text "3". Elements without the tested key never match a predicate.
+
+export class ZWQueryError extends Error {}
+
+export type ZWQueryStep =
+  | { kind: 'child'; key: string | null; recursive: boolean } // A null key matches any child
+  | { kind: 'index'; index: number }
+  | { kind: 'filter'; key: string; operator?: '=' | '!='; value?: ZWScalar };
+
+const NAME_REGEX = /^(?:\*|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[\p{L}\p{M}\p{N}_-]+)/u;
+
+const PATH_KEY_REGEX = /^[\p{L}\p{M}\p{N}_-]+$/u;
+
+// Writes a key as a path step, quoting keys that hold "." or other special characters.
+export const formatZWPathKey = (key: string): string => (PATH_KEY_REGEX.test(key) ? key : quoteZWString(key));
+
+const parseSelector = (selector: string, position: number): ZWQueryStep => {
+  const text = selector.trim();
+  if (text === '*') return { kind: 'child', key: null, recursive: false };
+  if (/^-?\d+$/.test(text)) return { kind: 'index', index: Number(text) };
+  const match = text.match(/^("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[^=!\s]+)\s*(?:(!?=)\s*(.*))?$/);
+  if (!match || (match[2] !== undefined && match[3] === '')) {
+    throw new ZWQueryError(`Invalid selector "[${selector}]" at position ${position + 1}.`);
+  }
+  const key = unquoteZWString(match[1]);
+  if (match[2] === undefined) return { kind: 'filter', key };
+  return { kind: 'filter', key, operator: match[2] as '=' | '!=', value: resolveZWScalar(match[3].trim()) };
+};
+
+// Splits a path into steps. Throws ZWQueryError when the path is malformed.
+export const parseZWQuery = (path: string): ZWQueryStep[] => {
+  const steps: ZWQueryStep[] = [];
+  let pos = 0;
+  const readName = (recursive: boolean) => {
+    const match = path.substring(pos).match(NAME_REGEX);
+    if (!match) throw new ZWQueryError(`Expected a key at position ${pos + 1} of "${path}".`);
+    steps.push({ kind: 'child', key: match[0] === '*' ? null : unquoteZWString(match[0]), recursive });
+    pos += match[0].length;
+  };
+
+  if (path.trim() === '') throw new ZWQueryError('The path is empty.');
+  if (path[0] !== '.' && path[0] !== '[') readName(false);
+  while (pos < path.length) {
+    if (path.startsWith('..', pos)) {
+      pos += 2;
+      readName(true);
+    } else if (path[pos] === '.') {
+      pos += 1;
+      readName(false);
+    } else if (path[pos] === '[') {
+      // Quoted predicate values may contain "]".
+      const close = path.substring(pos).match(/^\[((?:[^\]"']|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')*)\]/);
+      if (!close) throw new ZWQueryError(`Unclosed "[" at position ${pos + 1} of "${path}".`);
+      steps.push(parseSelector(close[1], pos));
+      pos += close[0].length;
+    } else {
+      throw new ZWQueryError(`Unexpected "${path[pos]}" at position ${pos + 1} of "${path}".`);
+    }
+  }
+  return steps;
+};
+
+const descendantsOf = (element: ZWElement): ZWElement[] =>
+  getZWChildren(element).flatMap(child => [child, ...descendantsOf(child)]);
+
+const hasKey = (element: ZWElement, key: string): boolean => element.kind === 'node' && element.key === key;
+
+const matchesFilter = (element: ZWElement, step: Extract<ZWQueryStep, { kind: 'filter' }>): boolean => {
+  const field = getZWChildren(element).find(child => hasKey(child, step.key));
+  if (!field) return false;
+  if (!step.operator || !step.value) return true;
+  const equal = getZWScalar(field)?.value === step.value.value;
+  return step.operator === '=' ? equal : !equal;
+};
+
+const applyStep = (element: ZWElement, step: ZWQueryStep): ZWElement[] => {
+  switch (step.kind) {
+    case 'child':
+      return (step.recursive ? descendantsOf(element) : getZWChildren(element))
+        .filter(child => step.key === null || hasKey(child, step.key));
+    case 'index': {
+      const children = getZWChildren(element);
+      const child = children[step.index < 0 ? children.length + step.index : step.index];
+      return child ? [child] : [];
+    }
+    case 'filter':
+      return getZWChildren(element).filter(child => matchesFilter(child, step));
+  }
+};
+
+// Returns the elements `path` selects below `node`, each once, in the order found. The
+// path may also be given already split by parseZWQuery.
+export const queryZW = (node: ZWElement, path: string | ZWQueryStep[]): ZWElement[] =>
+  (typeof path === 'string' ? parseZWQuery(path) : path).reduce<ZWElement[]>(
+    (current, step) => Array.from(new Set(current.flatMap(element => applyStep(element, step)))),
+    [node]
+  );
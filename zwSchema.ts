@@ -0,0 +1,753 @@
+import { ZWNode, ZWListItem, ZWElement, ZWSpan, ZWScalar, getZWScalar, resolveZWScalar, quoteZWString, getZWChildren, isZWNode, findZWChild, isZWSection, isZWList, getZWScalarText } from './zwParser';
+import { formatZWPathKey } from './zwQuery';
+import { joinZWPath, mapZW } from './zwTraverse';
+import { ZWVocabularyResolver, suggestZWVocabularyValues } from './zwVocabulary';
+
+// A typed schema is a ZW-SCHEMA packet that declares the fields of another packet type:
+//
+//   ZW-SCHEMA:
+//     TARGET: ZW-NPC                  # The packet type it describes
+//     DESCRIPTION: A character the player can talk to
+//     FIELDS:
+//       NAME:
+//         TYPE: string
+//         REQUIRED: true
+//         DESCRIPTION: Shown above dialogue lines
+//         MAX_LENGTH: 40
+//       LEVEL:
+//         TYPE: number
+//         MIN: 1
+//         DEFAULT: 1
+//       MOOD:
+//         TYPE: enum
+//         VALUES: [calm, wary, hostile]
+//       EMOTION_TAG:
+//         VOCABULARY: EMOTION_TAGS     # Values from a named list kept by the project
+//       TAGS: list_of_strings         # A bare type name declares an optional field
+//       STATS:
+//         TYPE: object
+//         FIELDS:
+//           HP: { TYPE: number, REQUIRED: true }
+//
+// Types are string, number, boolean, enum (with VALUES), object (with FIELDS) and list_of_X
+// for any of these, such as list_of_numbers or list_of_objects. A field without a TYPE
+// accepts anything. MIN and MAX bound numbers, MIN_LENGTH and MAX_LENGTH the length of a
+// string or list, and PATTERN (a regular expression) strings; in a list, all but the
+// length apply to each item. VOCABULARY limits a string field, or each item of a list of
+// strings, to the values of a controlled vocabulary (see zwVocabulary.ts); without a TYPE
+// such a field is a string. Fields are optional unless REQUIRED is true.
+//
+// Packets link up through id and ref fields, which hold text. An id names something in a
+// NAMESPACE and must be unique there; a ref must name something declared in its namespace.
+// A ref with ROLE: start declares what it names itself and expects a ref with
+// ROLE: complete to name it too, as quests are started and later completed:
+//
+//       DIALOGUE_ID: { TYPE: id, NAMESPACE: DIALOGUE }
+//       ANCHORS_SET: { TYPE: list_of_refs, NAMESPACE: ANCHORS }
+//       QUESTS_STARTED: { TYPE: list_of_refs, NAMESPACE: QUESTS, ROLE: start }
+//       QUESTS_COMPLETED: { TYPE: list_of_refs, NAMESPACE: QUESTS, ROLE: complete }
+//
+// These links are checked across a set of packets by checkZWIntegrity (see zwIntegrity.ts).
+//
+// Schemas can build on each other. EXTENDS names one schema (or a list of them) whose
+// fields come first, with fields of the same name declared later replacing them; a schema's
+// name can also stand as a field type, embedding its fields as an object:
+//
+//   ZW-SCHEMA:
+//     NAME: CHARACTER_REF             # A sub-schema: a NAME and no TARGET
+//     FIELDS:
+//       NAME: { TYPE: string, REQUIRED: true }
+//       ROLE: string
+//
+//   ZW-SCHEMA:
+//     TARGET: ZW-DIALOGUE
+//     EXTENDS: STORY_BASE             # Another schema's NAME, or TARGET when it has none
+//     FIELDS:
+//       SPEAKER: { TYPE: CHARACTER_REF, REQUIRED: true }
+//       LISTENERS: list_of_CHARACTER_REF
+//
+// The caller looks the names up (see ZWSchemaResolver); references that lead back to the
+// schema they start from are rejected.
+//
+// A schema with a VERSION (a whole number, 1 by default) expects packets to state the
+// version they were written for in a top-level SCHEMA_VERSION key, and can list how to
+// upgrade older packets under MIGRATIONS (see zwMigrate.ts).
+
+export const ZW_SCHEMA_TYPE = 'ZW-SCHEMA';
+export const ZW_SCHEMA_VERSION_KEY = 'SCHEMA_VERSION';
+
+// Thrown for a ZW-SCHEMA packet that does not declare its fields correctly.
+export class ZWSchemaError extends Error {}
+
+export type ZWFieldType =
+  | { kind: 'any' }
+  | { kind: 'string' }
+  | { kind: 'number' }
+  | { kind: 'boolean' }
+  | { kind: 'enum'; values: string[] }
+  | { kind: 'object'; fields: ZWFieldDefinition[]; schema?: string } // `schema`: the sub-schema it embeds
+  | { kind: 'list'; items: ZWFieldType };
+
+// Finds the ZW-SCHEMA packet a name refers to, for EXTENDS and schema-named field types.
+export type ZWSchemaResolver = (name: string) => ZWNode | undefined;
+
+export type ZWReferenceRole = 'start' | 'complete';
+
+export interface ZWFieldReference {
+  kind: 'id' | 'ref';
+  namespace: string; // Upper case
+  role?: ZWReferenceRole; // Refs only
+}
+
+export interface ZWFieldDefinition {
+  name: string;
+  type: ZWFieldType;
+  required: boolean;
+  description?: string;
+  default?: ZWNode; // The DEFAULT entry as written in the schema
+  min?: number;
+  max?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  vocabulary?: string; // The name of the vocabulary its values come from
+  reference?: ZWFieldReference; // Set for id and ref fields, whose type is string
+  span?: ZWSpan;
+}
+
+export interface ZWSchema {
+  target: string; // '' for a sub-schema, which only other schemas use
+  name?: string;
+  version?: number;
+  description?: string;
+  fields: ZWFieldDefinition[];
+}
+
+export interface ZWSchemaIssue {
+  severity: 'error' | 'warning'; // Warnings are for keys the schema does not declare
+  path: string; // Query path (see zwQuery.ts) in the packet; '' is the packet itself
+  message: string;
+  span?: ZWSpan;
+  suggestions?: string[]; // Vocabulary values the one found was likely meant to be
+}
+
+const SCHEMA_KEYS = ['TARGET', 'NAME', 'EXTENDS', 'VERSION', 'DESCRIPTION', 'FIELDS', 'MIGRATIONS'];
+const FIELD_KEYS = ['TYPE', 'REQUIRED', 'DESCRIPTION', 'DEFAULT', 'VALUES', 'FIELDS', 'MIN', 'MAX', 'MIN_LENGTH', 'MAX_LENGTH', 'PATTERN', 'VOCABULARY', 'NAMESPACE', 'ROLE'];
+
+// nested_object and custom_enum are the names the inspector design uses.
+const TYPE_NAMES: Record<string, Exclude<ZWFieldType['kind'], 'list'>> = {
+  any: 'any',
+  string: 'string',
+  number: 'number',
+  boolean: 'boolean',
+  enum: 'enum',
+  custom_enum: 'enum',
+  object: 'object',
+  nested_object: 'object',
+  id: 'string', // See ZWFieldReference
+  ref: 'string',
+};
+
+const REFERENCE_TYPE_REGEX = /^(?:list_of_)?(id|ref)s?$/i;
+const REFERENCE_ROLES: ZWReferenceRole[] = ['start', 'complete'];
+
+const describeElement = (element: ZWElement): string => {
+  const scalar = getZWScalar(element);
+  if (!scalar) return isZWList(element) ? 'a list' : 'an object';
+  switch (scalar.type) {
+    case 'integer':
+    case 'float':
+      return `the number ${scalar.raw.trim()}`;
+    case 'boolean':
+      return `the boolean ${scalar.raw.trim()}`;
+    case 'null':
+      return 'null';
+    default:
+      return `"${scalar.value}"`;
+  }
+};
+
+const describeType = (type: ZWFieldType): string => {
+  switch (type.kind) {
+    case 'any':
+      return 'any value';
+    case 'enum':
+      return `one of ${type.values.join(', ')}`;
+    case 'object':
+      if (type.schema) return `a ${type.schema}`;
+      return 'an object';
+    case 'list':
+      return 'a list';
+    default:
+      return `a ${type.kind}`;
+  }
+};
+
+// --- Reading a schema ---
+
+export const isZWSchema = (root: ZWNode): boolean => root.key === ZW_SCHEMA_TYPE;
+
+// The packet type a schema applies to: the TARGET of a typed schema, or the root type of
+// an example packet.
+export const getZWSchemaTarget = (root: ZWNode): string => {
+  if (!isZWSchema(root)) return root.key;
+  const target = findZWChild(root, 'TARGET');
+  const scalar = target && getZWScalar(target);
+  return scalar ? getZWScalarText(scalar) : '';
+};
+
+// The name other schemas refer to a schema by: its NAME, or else its TARGET.
+export const getZWSchemaName = (root: ZWNode): string => {
+  const name = findZWChild(root, 'NAME');
+  const scalar = name && getZWScalar(name);
+  return scalar ? getZWScalarText(scalar) : getZWSchemaTarget(root);
+};
+
+const readText = (node: ZWNode, position: string): string => {
+  const scalar = getZWScalar(node);
+  if (!scalar || scalar.type === 'null') throw new ZWSchemaError(`${position}: ${node.key} must be a single value.`);
+  return getZWScalarText(scalar);
+};
+
+const readNumber = (node: ZWNode, position: string): number => {
+  const scalar = getZWScalar(node);
+  if (!scalar || (scalar.type !== 'integer' && scalar.type !== 'float')) {
+    throw new ZWSchemaError(`${position}: ${node.key} must be a number.`);
+  }
+  return scalar.value as number;
+};
+
+const readBoolean = (node: ZWNode, position: string): boolean => {
+  const scalar = getZWScalar(node);
+  if (scalar?.type !== 'boolean') throw new ZWSchemaError(`${position}: ${node.key} must be true or false.`);
+  return scalar.value as boolean;
+};
+
+interface ReadContext {
+  resolve?: ZWSchemaResolver;
+  resolving: string[]; // Names of the schemas being read, outermost first, to catch cycles
+}
+
+// The fields of the schema `name` refers to, or undefined when nothing answers to it.
+const readReference = (name: string, context: ReadContext, position: string): ZWFieldDefinition[] | undefined => {
+  const root = context.resolve?.(name);
+  if (!root) return undefined;
+  if (!isZWSchema(root)) throw new ZWSchemaError(`${position}: ${name} is not a ${ZW_SCHEMA_TYPE}.`);
+  const resolvedName = getZWSchemaName(root).toUpperCase();
+  if (context.resolving.includes(resolvedName)) {
+    throw new ZWSchemaError(`${position}: ${[...context.resolving, resolvedName].join(' → ')} refers back to itself.`);
+  }
+  try {
+    return readSchemaFields(root, { ...context, resolving: [...context.resolving, resolvedName] });
+  } catch (error) {
+    if (!(error instanceof ZWSchemaError)) throw error;
+    throw new ZWSchemaError(`${position}: in ${name}: ${error.message}`);
+  }
+};
+
+// A field type named after a schema embeds that schema's fields.
+const readReferencedType = (candidates: string[], context: ReadContext, position: string): ZWFieldType | undefined => {
+  for (const candidate of candidates) {
+    const fields = readReference(candidate, context, position);
+    if (fields) return { kind: 'object', fields, schema: candidate };
+  }
+  return undefined;
+};
+
+const readType = (name: string, definition: ZWNode, path: string, context: ReadContext): ZWFieldType => {
+  const position = `Field ${path}`;
+  const listMatch = name.trim().match(/^list_of_(.+)$/i);
+  const baseName = listMatch ? listMatch[1] : name.trim();
+  // list_of_numbers and list_of_number both name a list of numbers.
+  const candidates = listMatch && /s$/i.test(baseName) ? [baseName, baseName.slice(0, -1)] : [baseName];
+  const builtIn = candidates.map(candidate => candidate.toLowerCase()).find(candidate => Object.keys(TYPE_NAMES).includes(candidate));
+  const kind = builtIn === undefined ? undefined : TYPE_NAMES[builtIn];
+  let type: ZWFieldType;
+  if (kind === undefined) {
+    const referenced = readReferencedType(candidates, context, position);
+    if (!referenced) throw new ZWSchemaError(`${position}: unknown type "${name}".`);
+    type = referenced;
+  } else if (kind === 'enum') {
+    const values = findZWChild(definition, 'VALUES');
+    if (!values || !isZWList(values) || getZWChildren(values).length === 0) {
+      throw new ZWSchemaError(`${position}: an enum needs a list of VALUES.`);
+    }
+    type = {
+      kind,
+      values: getZWChildren(values).map(item => {
+        const scalar = getZWScalar(item);
+        if (!scalar) throw new ZWSchemaError(`${position}: the VALUES of an enum must be single values.`);
+        return getZWScalarText(scalar);
+      }),
+    };
+  } else if (kind === 'object') {
+    type = { kind, fields: readFields(findZWChild(definition, 'FIELDS'), position, context, path) };
+  } else {
+    type = { kind };
+  }
+  return listMatch ? { kind: 'list', items: type } : type;
+};
+
+const readField = (node: ZWNode, path: string, context: ReadContext): ZWFieldDefinition => {
+  const position = `Field ${path}`;
+  const scalar = getZWScalar(node);
+  if (scalar) {
+    // The shorthand "NAME: string"
+    const reference = getZWScalarText(scalar).trim().match(REFERENCE_TYPE_REGEX);
+    if (reference) throw new ZWSchemaError(`${position}: id and ref fields need a NAMESPACE.`);
+    return { name: node.key, type: readType(getZWScalarText(scalar), node, path, context), required: false, span: node.span };
+  }
+  if (!isZWSection(node)) throw new ZWSchemaError(`${position}: expected a type name or a section of properties.`);
+  const properties = getZWChildren(node) as ZWNode[];
+  const unknown = properties.find(property => !FIELD_KEYS.includes(property.key));
+  if (unknown) {
+    throw new ZWSchemaError(`${position}: unknown property ${unknown.key} (expected one of ${FIELD_KEYS.join(', ')}).`);
+  }
+  const property = (key: string) => findZWChild(node, key);
+  const typeNode = property('TYPE');
+  const vocabulary = property('VOCABULARY');
+  const field: ZWFieldDefinition = {
+    name: node.key,
+    type: typeNode ? readType(readText(typeNode, position), node, path, context) : { kind: vocabulary ? 'string' : 'any' },
+    required: property('REQUIRED') ? readBoolean(property('REQUIRED')!, position) : false,
+    span: node.span,
+  };
+  const description = property('DESCRIPTION');
+  if (description) field.description = readText(description, position);
+  const referenceKind = typeNode && readText(typeNode, position).trim().match(REFERENCE_TYPE_REGEX)?.[1].toLowerCase();
+  const namespace = property('NAMESPACE');
+  const role = property('ROLE');
+  if (referenceKind) {
+    if (!namespace) throw new ZWSchemaError(`${position}: id and ref fields need a NAMESPACE.`);
+    field.reference = { kind: referenceKind as ZWFieldReference['kind'], namespace: readText(namespace, position).toUpperCase() };
+    if (role) {
+      const roleName = readText(role, position).toLowerCase() as ZWReferenceRole;
+      if (referenceKind !== 'ref' || !REFERENCE_ROLES.includes(roleName)) {
+        throw new ZWSchemaError(`${position}: ROLE is start or complete, and only for ref fields.`);
+      }
+      field.reference.role = roleName;
+    }
+  } else if (namespace || role) {
+    throw new ZWSchemaError(`${position}: ${namespace ? 'NAMESPACE' : 'ROLE'} is only for id and ref fields.`);
+  }
+  if (vocabulary) {
+    const element = field.type.kind === 'list' ? field.type.items : field.type;
+    if (element.kind !== 'string') throw new ZWSchemaError(`${position}: VOCABULARY only applies to strings and lists of strings.`);
+    field.vocabulary = readText(vocabulary, position);
+  }
+  (['MIN', 'MAX', 'MIN_LENGTH', 'MAX_LENGTH'] as const).forEach(key => {
+    const constraint = property(key);
+    if (!constraint) return;
+    const value = readNumber(constraint, position);
+    if (key === 'MIN') field.min = value;
+    else if (key === 'MAX') field.max = value;
+    else if (key === 'MIN_LENGTH') field.minLength = value;
+    else field.maxLength = value;
+  });
+  const pattern = property('PATTERN');
+  if (pattern) {
+    field.pattern = readText(pattern, position);
+    try {
+      new RegExp(field.pattern);
+    } catch {
+      throw new ZWSchemaError(`${position}: PATTERN is not a valid regular expression.`);
+    }
+  }
+  const defaultValue = property('DEFAULT');
+  if (defaultValue) {
+    const problems: ZWSchemaIssue[] = [];
+    checkValue(defaultValue, field, path, problems);
+    if (problems.length > 0) throw new ZWSchemaError(`${position}: DEFAULT does not fit the field (${problems[0].message})`);
+    field.default = defaultValue;
+  }
+  return field;
+};
+
+const readFields = (fields: ZWNode | undefined, parentPosition: string, context: ReadContext, parentPath = ''): ZWFieldDefinition[] => {
+  if (!fields) return [];
+  if (!isZWSection(fields)) throw new ZWSchemaError(`${parentPosition}: FIELDS must be a section.`);
+  return (getZWChildren(fields) as ZWNode[]).map((node, index) => readField(node, joinZWPath(parentPath, node, index), context));
+};
+
+// The inherited fields followed by the schema's own, each replacing any of the same name.
+const readSchemaFields = (root: ZWNode, context: ReadContext): ZWFieldDefinition[] => {
+  const fields: ZWFieldDefinition[] = [];
+  const add = (field: ZWFieldDefinition) => {
+    const index = fields.findIndex(existing => existing.name === field.name);
+    if (index === -1) fields.push(field);
+    else fields[index] = field;
+  };
+  const extendsNode = findZWChild(root, 'EXTENDS');
+  if (extendsNode) {
+    const position = `${ZW_SCHEMA_TYPE} ${getZWSchemaName(root)}`.trim();
+    const names = isZWList(extendsNode)
+      ? getZWChildren(extendsNode).map(item => {
+          const scalar = getZWScalar(item);
+          if (!scalar) throw new ZWSchemaError(`${position}: EXTENDS must list schema names.`);
+          return getZWScalarText(scalar);
+        })
+      : [readText(extendsNode, position)];
+    names.forEach(name => {
+      const inherited = readReference(name, context, `${position}: EXTENDS`);
+      if (!inherited) throw new ZWSchemaError(`${position}: EXTENDS names ${name}, which could not be found.`);
+      inherited.forEach(add);
+    });
+  }
+  readFields(findZWChild(root, 'FIELDS'), ZW_SCHEMA_TYPE, context).forEach(add);
+  return fields;
+};
+
+// Reads a ZW-SCHEMA packet, composed with the schemas it extends and embeds, which
+// `resolve` looks up; throws ZWSchemaError when it is not well-formed.
+export const parseZWSchema = (root: ZWNode, resolve?: ZWSchemaResolver): ZWSchema => {
+  if (!isZWSchema(root)) throw new ZWSchemaError(`Expected a ${ZW_SCHEMA_TYPE} packet.`);
+  const unknown = getZWChildren(root).find(child => !isZWNode(child) || !SCHEMA_KEYS.includes(child.key));
+  if (unknown) {
+    throw new ZWSchemaError(`${ZW_SCHEMA_TYPE} only takes ${SCHEMA_KEYS.join(', ')}; found ${isZWNode(unknown) ? unknown.key : 'a list item'}.`);
+  }
+  const target = getZWSchemaTarget(root);
+  const name = findZWChild(root, 'NAME');
+  if (!target && !name) throw new ZWSchemaError(`${ZW_SCHEMA_TYPE} needs a TARGET packet type, or a NAME for other schemas to use it by.`);
+  const description = findZWChild(root, 'DESCRIPTION');
+  const version = findZWChild(root, 'VERSION');
+  const context: ReadContext = { resolve, resolving: [getZWSchemaName(root).toUpperCase()] };
+  const schema: ZWSchema = { target, fields: readSchemaFields(root, context) };
+  if (name) schema.name = readText(name, ZW_SCHEMA_TYPE);
+  if (version) {
+    schema.version = readNumber(version, ZW_SCHEMA_TYPE);
+    if (!Number.isInteger(schema.version) || schema.version < 1) throw new ZWSchemaError(`${ZW_SCHEMA_TYPE}: VERSION must be a whole number from 1 up.`);
+  }
+  if (description) schema.description = readText(description, ZW_SCHEMA_TYPE);
+  return schema;
+};
+
+// --- Validating a packet ---
+
+// The schema version a packet was written for; packets that do not say are at version 1.
+// Undefined when SCHEMA_VERSION is not a whole number.
+export const getZWPacketVersion = (packet: ZWNode): number | undefined => {
+  const entry = findZWChild(packet, ZW_SCHEMA_VERSION_KEY);
+  if (!entry) return 1;
+  const scalar = getZWScalar(entry);
+  return scalar?.type === 'integer' && (scalar.value as number) >= 1 ? (scalar.value as number) : undefined;
+};
+
+const checkVersion = (packet: ZWNode, schema: ZWSchema, issues: ZWSchemaIssue[]) => {
+  const entry = findZWChild(packet, ZW_SCHEMA_VERSION_KEY);
+  const span = entry?.valueSpan ?? entry?.span ?? packet.keySpan;
+  const version = getZWPacketVersion(packet);
+  const expected = schema.version ?? 1;
+  if (version === undefined) {
+    issues.push({ severity: 'error', path: ZW_SCHEMA_VERSION_KEY, message: `expected a whole number, found ${describeElement(entry!)}`, span });
+  } else if (version < expected) {
+    issues.push({ severity: 'error', path: ZW_SCHEMA_VERSION_KEY, message: `the packet is at version ${version}; migrate it to version ${expected}`, span });
+  } else if (version > expected) {
+    issues.push({ severity: 'error', path: ZW_SCHEMA_VERSION_KEY, message: `the packet is at version ${version}, newer than the schema (version ${expected})`, span });
+  }
+};
+
+const SCALAR_KINDS: ReadonlyArray<ZWFieldType['kind']> = ['string', 'number', 'boolean', 'enum'];
+
+// An entry written without a value ("MOOD:") or as null counts as absent for a scalar field.
+const isBlank = (element: ZWElement, type: ZWFieldType): boolean =>
+  getZWScalar(element)?.type === 'null' ||
+  (SCALAR_KINDS.includes(type.kind) && Array.isArray(element.value) && element.value.length === 0 && !element.flowStyle);
+
+const checkLength = (length: number, unit: string, field: ZWFieldDefinition, report: (message: string) => void) => {
+  if (field.minLength !== undefined && length < field.minLength) report(`has ${length} ${unit}, fewer than the minimum of ${field.minLength}`);
+  if (field.maxLength !== undefined && length > field.maxLength) report(`has ${length} ${unit}, more than the maximum of ${field.maxLength}`);
+};
+
+// What a validation run checks beyond the schema itself.
+interface ValidationContext {
+  vocabularies?: ZWVocabularyResolver;
+  strict: boolean; // The packet was parsed with strict scalar types
+}
+
+const checkValue = (element: ZWElement, field: ZWFieldDefinition, path: string, issues: ZWSchemaIssue[], context: ValidationContext = { strict: false }) => {
+  const report = (message: string) => issues.push({ severity: 'error', path, message, span: element.valueSpan ?? element.span });
+  const { type } = field;
+  if (type.kind === 'any') return;
+  if (type.kind === 'object') {
+    if (!isZWSection(element)) report(`expected ${describeType(type)}, found ${describeElement(element)}`);
+    else checkFields(element, type.fields, path, issues, context);
+    return;
+  }
+  if (type.kind === 'list') {
+    if (!isZWList(element)) {
+      report(`expected ${describeType(type)}, found ${describeElement(element)}`);
+      return;
+    }
+    const items = getZWChildren(element);
+    checkLength(items.length, 'item(s)', field, report);
+    const itemField: ZWFieldDefinition = { ...field, type: type.items, required: true, minLength: undefined, maxLength: undefined };
+    items.forEach((item, index) => checkValue(item, itemField, joinZWPath(path, item, index), issues, context));
+    return;
+  }
+
+  const scalar = getZWScalar(element);
+  if (!scalar) {
+    report(`expected ${describeType(type)}, found ${describeElement(element)}`);
+    return;
+  }
+  const text = getZWScalarText(scalar);
+  switch (type.kind) {
+    case 'number':
+      if (scalar.type !== 'integer' && scalar.type !== 'float') {
+        report(`expected ${describeType(type)}, found ${describeElement(element)}`);
+        return;
+      }
+      if (field.min !== undefined && (scalar.value as number) < field.min) report(`${text} is below the minimum of ${field.min}`);
+      if (field.max !== undefined && (scalar.value as number) > field.max) report(`${text} is above the maximum of ${field.max}`);
+      return;
+    case 'boolean':
+      if (scalar.type !== 'boolean') report(`expected ${describeType(type)}, found ${describeElement(element)}`);
+      return;
+    case 'enum':
+      if (!type.values.includes(text)) report(`expected ${describeType(type)}, found "${text}"`);
+      return;
+    case 'string':
+      // Strict types leave only unambiguous numbers and booleans unquoted, so one of those
+      // in a string field is a value of the wrong type rather than text.
+      if (context.strict && scalar.type !== 'string') {
+        report(`expected ${describeType(type)}, found ${describeElement(element)}; quote it to keep it as text`);
+        return;
+      }
+      checkLength(text.length, 'character(s)', field, report);
+      if (field.pattern !== undefined && !new RegExp(field.pattern).test(text)) report(`"${text}" does not match the pattern ${field.pattern}`);
+      // A vocabulary the caller cannot find is left unchecked; see listZWSchemaFields.
+      if (field.vocabulary !== undefined) {
+        const values = context.vocabularies?.(field.vocabulary);
+        if (values && !values.includes(text)) {
+          const suggestions = suggestZWVocabularyValues(text, values);
+          const hint = suggestions.length > 0 ? `; did you mean ${suggestions.join(' or ')}?` : '';
+          issues.push({ severity: 'error', path, message: `"${text}" is not in the ${field.vocabulary} vocabulary${hint}`, span: element.valueSpan ?? element.span, suggestions });
+        }
+      }
+      return;
+  }
+};
+
+const checkFields = (element: ZWElement, fields: ZWFieldDefinition[], path: string, issues: ZWSchemaIssue[], context: ValidationContext, reserved: string[] = []) => {
+  const children = getZWChildren(element).filter(isZWNode).filter(child => !reserved.includes(child.key));
+  fields.forEach(field => {
+    const [child, ...repeats] = children.filter(candidate => candidate.key === field.name);
+    // A field holds one value; only the first time its key is written is checked.
+    repeats.forEach(repeat => {
+      const line = child.keySpan ?? child.span;
+      issues.push({ severity: 'error', path: joinZWPath(path, repeat, 0), message: `repeats a key already given${line ? ` on line ${line.start.line}` : ''}`, span: repeat.keySpan ?? repeat.span });
+    });
+    if (!child || isBlank(child, field.type)) {
+      if (field.required) {
+        const fieldPath = path === '' ? formatZWPathKey(field.name) : `${path}.${formatZWPathKey(field.name)}`;
+        const holder = child ?? element;
+        issues.push({ severity: 'error', path: fieldPath, message: `required field is missing (expected ${describeType(field.type)})`, span: holder.keySpan ?? holder.span });
+      }
+      return;
+    }
+    checkValue(child, field, joinZWPath(path, child, 0), issues, context);
+  });
+  children.forEach(child => {
+    if (!fields.some(field => field.name === child.key)) {
+      issues.push({ severity: 'warning', path: joinZWPath(path, child, 0), message: 'not declared in the schema', span: child.keySpan ?? child.span });
+    }
+  });
+};
+
+// Checks a packet against a schema, recursing into objects and lists. Fields with a
+// VOCABULARY are checked against the values `vocabularies` finds for it. Pass `strict`
+// when the packet was parsed with strict scalar types, so that an unquoted number or
+// boolean in a string field is reported.
+export const validateZWSchema = (packet: ZWNode, schema: ZWSchema, vocabularies?: ZWVocabularyResolver, strict = false): ZWSchemaIssue[] => {
+  const issues: ZWSchemaIssue[] = [];
+  if (packet.key !== schema.target) {
+    issues.push({ severity: 'error', path: '', message: `expected a ${schema.target} packet, found ${packet.key}`, span: packet.keySpan });
+    return issues;
+  }
+  // SCHEMA_VERSION belongs to versioned schemas rather than to their fields.
+  if (schema.version !== undefined) checkVersion(packet, schema, issues);
+  checkFields(packet, schema.fields, '', issues, { vocabularies, strict }, schema.version !== undefined ? [ZW_SCHEMA_VERSION_KEY] : []);
+  return issues;
+};
+
+// Every field the schema declares, nested ones included, with its query path; fields
+// inside list items are reached through [*], as in SEQUENCE[*].EMOTION_TAG.
+export const listZWSchemaFields = (schema: ZWSchema): Array<{ path: string; field: ZWFieldDefinition }> => {
+  const list = (fields: ZWFieldDefinition[], parentPath: string): Array<{ path: string; field: ZWFieldDefinition }> =>
+    fields.flatMap(field => {
+      const path = parentPath === '' ? formatZWPathKey(field.name) : `${parentPath}.${formatZWPathKey(field.name)}`;
+      let type = field.type;
+      let typePath = path;
+      while (type.kind === 'list') {
+        type = type.items;
+        typePath += '[*]';
+      }
+      return [{ path, field }, ...(type.kind === 'object' ? list(type.fields, typePath) : [])];
+    });
+  return list(schema.fields, '');
+};
+
+export const formatZWSchemaIssue = (issue: ZWSchemaIssue): string => {
+  const line = issue.span ? ` (line ${issue.span.start.line})` : '';
+  return `${issue.path || '(packet)'}${line}: ${issue.message}`;
+};
+
+// --- Inferring schemas from packets ---
+
+export interface ZWInferOptions {
+  // Turn text fields that keep repeating a few short values into enums (default true).
+  enums?: boolean;
+}
+
+const ENUM_MAX_VALUES = 6;
+const ENUM_MAX_VALUE_LENGTH = 32;
+
+// An empty "KEY:" could be a section or a list, so like null it says nothing about the type.
+const isUninformative = (element: ZWElement): boolean =>
+  getZWScalar(element)?.type === 'null' ||
+  (Array.isArray(element.value) && element.value.length === 0 && !element.flowStyle);
+
+const inferScalarType = (scalars: ZWScalar[], options: ZWInferOptions): ZWFieldType => {
+  if (scalars.every(scalar => scalar.type === 'integer' || scalar.type === 'float')) return { kind: 'number' };
+  if (scalars.every(scalar => scalar.type === 'boolean')) return { kind: 'boolean' };
+  if (options.enums !== false && scalars.every(scalar => scalar.type === 'string')) {
+    const values = [...new Set(scalars.map(getZWScalarText))];
+    const repeats = values.length < scalars.length;
+    const few = values.length >= 2 && values.length <= ENUM_MAX_VALUES;
+    if (repeats && few && values.every(value => value.length <= ENUM_MAX_VALUE_LENGTH)) {
+      return { kind: 'enum', values };
+    }
+  }
+  // Mixed scalars are read as text, which any value passes.
+  return { kind: 'string' };
+};
+
+// The type that fits every sample value; samples of different kinds accept anything.
+const inferType = (samples: ZWElement[], options: ZWInferOptions): ZWFieldType => {
+  const informative = samples.filter(sample => !isUninformative(sample));
+  if (informative.length === 0) return { kind: 'any' };
+  const scalars = informative.map(getZWScalar);
+  if (scalars.every((scalar): scalar is ZWScalar => scalar !== undefined)) return inferScalarType(scalars, options);
+  if (scalars.some(scalar => scalar !== undefined)) return { kind: 'any' };
+  if (informative.every(isZWList)) {
+    const itemSamples = informative.flatMap(getZWChildren);
+    const items = inferType(itemSamples, options);
+    // Unlike a blank field, a blank item is checked against the item type, which may not take it.
+    const fits = (item: ZWElement): boolean => {
+      const issues: ZWSchemaIssue[] = [];
+      checkValue(item, { name: '', type: items, required: true }, '', issues);
+      return issues.length === 0;
+    };
+    return { kind: 'list', items: itemSamples.filter(isUninformative).every(fits) ? items : { kind: 'any' } };
+  }
+  if (informative.every(isZWSection)) {
+    return { kind: 'object', fields: inferFields(informative.map(sample => getZWChildren(sample).filter(isZWNode)), options) };
+  }
+  return { kind: 'any' };
+};
+
+// The fields of a group of sample objects: a key is required when every sample gives it
+// a value, since validation counts a blank value as missing.
+const inferFields = (objects: ZWNode[][], options: ZWInferOptions): ZWFieldDefinition[] => {
+  const names = [...new Set(objects.flatMap(nodes => nodes.map(node => node.key)))];
+  return names.map(name => {
+    const type = inferType(objects.flatMap(nodes => nodes.filter(node => node.key === name)), options);
+    const count = objects.filter(nodes => nodes.some(node => node.key === name && !isBlank(node, type))).length;
+    const field: ZWFieldDefinition = { name, type, required: count === objects.length };
+    if (!field.required) field.description = `Has a value in ${count} of ${objects.length} samples`;
+    return field;
+  });
+};
+
+// A typed schema that every given packet passes. Fields all the packets give a value are
+// required, the others optional; list items are inferred together as one shape.
+export const inferZWSchema = (packets: ZWNode[], options: ZWInferOptions = {}): ZWSchema => {
+  if (packets.length === 0) throw new ZWSchemaError('Schema inference needs at least one packet.');
+  const types = [...new Set(packets.map(packet => packet.key))];
+  if (types.length > 1) throw new ZWSchemaError(`The packets must share one type to infer a schema; found ${types.join(', ')}.`);
+  return { target: types[0], fields: inferFields(packets.map(packet => getZWChildren(packet).filter(isZWNode)), options) };
+};
+
+// Reads the structure of an example packet as a schema: its keys are required and their
+// values typed by what the example holds.
+export const getZWExampleSchema = (example: ZWNode): ZWSchema => inferZWSchema([example], { enums: false });
+
+// --- Writing a schema ---
+
+// Plain words stay unquoted; anything the parser could read differently is quoted.
+const writeText = (text: string): string =>
+  /^[\p{L}\p{N}_][^"'#,:[\]{}]*$/u.test(text) && text === text.trim() && resolveZWScalar(text).type === 'string'
+    ? text
+    : quoteZWString(text);
+
+const schemaNode = (key: string, value: string | ZWNode[] | ZWListItem[], depth: number): ZWNode => ({
+  kind: 'node',
+  key,
+  value,
+  depth,
+  delimiter: ':',
+  ...(typeof value === 'string' ? { scalar: resolveZWScalar(value) } : {}),
+});
+
+const TYPE_NAME_OF: Record<Exclude<ZWFieldType['kind'], 'list'>, string> = {
+  any: 'any',
+  string: 'string',
+  number: 'number',
+  boolean: 'boolean',
+  enum: 'enum',
+  object: 'object',
+};
+
+// Lists of lists have no type name; they are written as lists of anything.
+const typeName = (type: ZWFieldType): string => {
+  if (type.kind !== 'list') return TYPE_NAME_OF[type.kind];
+  return type.items.kind === 'list' || type.items.kind === 'any' ? 'list_of_any' : `list_of_${TYPE_NAME_OF[type.items.kind]}s`;
+};
+
+const writeFields = (fields: ZWFieldDefinition[], depth: number): ZWNode =>
+  schemaNode('FIELDS', fields.map(field => writeField(field, depth + 1)), depth);
+
+const writeField = (field: ZWFieldDefinition, depth: number): ZWNode => {
+  const element = field.type.kind === 'list' ? field.type.items : field.type;
+  const properties: ZWNode[] = [];
+  const property = (key: string, value: string | ZWNode[] | ZWListItem[]) => properties.push(schemaNode(key, value, depth + 1));
+  if (field.reference) {
+    property('TYPE', field.type.kind === 'list' ? `list_of_${field.reference.kind}s` : field.reference.kind);
+  } else if (field.type.kind !== 'any') {
+    property('TYPE', typeName(field.type));
+  }
+  if (field.required) property('REQUIRED', 'true');
+  if (field.description !== undefined) property('DESCRIPTION', writeText(field.description));
+  if (field.vocabulary !== undefined) property('VOCABULARY', writeText(field.vocabulary));
+  if (field.reference) property('NAMESPACE', writeText(field.reference.namespace));
+  if (field.reference?.role) property('ROLE', field.reference.role);
+  if (field.default) {
+    const shifted = mapZW(field.default, (copy, context) => ({ ...copy, depth: depth + 1 + context.depth, span: undefined, keySpan: undefined, valueSpan: undefined }));
+    if (shifted) properties.push(shifted as ZWNode);
+  }
+  if (element.kind === 'enum') {
+    const values = schemaNode('VALUES', element.values.map((value): ZWListItem => ({ kind: 'item', value: writeText(value), depth: depth + 2, delimiter: ':' })), depth + 1);
+    values.flowStyle = 'list';
+    properties.push(values);
+  }
+  ([['MIN', field.min], ['MAX', field.max], ['MIN_LENGTH', field.minLength], ['MAX_LENGTH', field.maxLength]] as const).forEach(([key, value]) => {
+    if (value !== undefined) property(key, String(value));
+  });
+  if (field.pattern !== undefined) property('PATTERN', quoteZWString(field.pattern));
+  if (element.kind === 'object') properties.push(writeFields(element.fields, depth + 1));
+
+  // An optional field with nothing but a type is written in the short form "NAME: string".
+  if (properties.length === 1 && properties[0].key === 'TYPE') return schemaNode(field.name, properties[0].value as string, depth);
+  return schemaNode(field.name, properties, depth);
+};
+
+// The ZW-SCHEMA packet declaring a schema, ready for stringifyZW.
+export const createZWSchemaPacket = (schema: ZWSchema): ZWNode => {
+  const children: ZWNode[] = [];
+  if (schema.target) children.push(schemaNode('TARGET', writeText(schema.target), 1));
+  if (schema.name !== undefined) children.push(schemaNode('NAME', writeText(schema.name), 1));
+  if (schema.version !== undefined) children.push(schemaNode('VERSION', String(schema.version), 1));
+  if (schema.description !== undefined) children.push(schemaNode('DESCRIPTION', writeText(schema.description), 1));
+  children.push(writeFields(schema.fields, 1));
+  return schemaNode(ZW_SCHEMA_TYPE, children, 0);
+};
@@ -0,0 +1,242 @@
+import {
+  ZWNode,
+  ZWListItem,
+  ZWScalarStyle,
+  ZWDocument,
+  ZWDiagnostic,
+  DEFAULT_ZW_INDENT_WIDTH,
+  parseZWDocument,
+  detectZWIndentation,
+  hasParseErrors,
+  quoteZWString,
+  unquoteZWString,
+  resolveZWScalar,
+  isAmbiguousZWScalar,
+  formatZWKey,
+  ZW_KEY_PATTERN,
+} from './zwParser';
+
+// How string scalars are written:
+// - 'preserve': as they appear in the tree (quoted values keep their quotes)
+// - 'minimal': quotes only where the parser would otherwise misread the text
+// - 'always': every text value double-quoted; numbers, booleans and null stay bare
+export type ZWQuoteStyle = 'preserve' | 'minimal' | 'always';
+
+export interface ZWStringifyOptions {
+  indentWidth?: number; // Spaces per level (default 2)
+  useTabs?: boolean; // One tab per level; items that own keys then put them under a bare '-'
+  quoteStyle?: ZWQuoteStyle; // Default 'preserve'
+  sortKeys?: boolean; // Sort the keys of every section and item alphabetically; lists keep their order
+  comments?: boolean; // Write leading, inline and trailing comments (default true)
+}
+
+interface PrintContext {
+  unit: string; // One level of indentation
+  quoteStyle: ZWQuoteStyle;
+  sortKeys: boolean;
+  comments: boolean;
+}
+
+const isTypedLiteral = (text: string): boolean => resolveZWScalar(text).type !== 'string';
+
+const KEY_PREFIX_REGEX = new RegExp(`^(?:${ZW_KEY_PATTERN}):`, 'u');
+
+// Text that the parser would otherwise read as a number, boolean, null, quoted text, flow
+// collection, block header, comment or key, or whose outer whitespace it would trim. Text
+// that strict mode would reject as ambiguous ("1.0", "True") is quoted as well.
+const needsQuoting = (text: string): boolean =>
+  text === '' ||
+  text !== text.trim() ||
+  /[\u0000-\u001f]/.test(text) ||
+  isTypedLiteral(text) ||
+  isAmbiguousZWScalar(text) ||
+  /^["'[{|>#]/.test(text) ||
+  /(^|\s)#(\s|$)/.test(text) ||
+  KEY_PREFIX_REGEX.test(text);
+
+// A block only round-trips when every line survives the block indentation being stripped
+// again: no whitespace-only lines, no carriage returns, and at least one line that starts
+// without indentation.
+const canWriteAsBlock = (lines: string[]): boolean => {
+  const contentLines = lines.filter(line => line !== '');
+  return contentLines.length > 0 &&
+    contentLines.every(line => line.trim() !== '' && !/[\r\u0000-\u0008\u000b-\u001f]/.test(line)) &&
+    contentLines.some(line => !/^\s/.test(line));
+};
+
+// The "|" or ">" form of `text` (header first, then one line per entry, indented with
+// `blockIndent`), or null when the text cannot be written as that kind of block.
+const formatBlockText = (text: string, style: ZWScalarStyle, blockIndent: string): string | null => {
+  // Chomping indicator: no indicator keeps one final newline, "-" none and "+" all of them.
+  const trailingNewlines = text.length - text.replace(/\n+$/, '').length;
+  const body = text.substring(0, text.length - trailingNewlines);
+  let lines = body.split('\n');
+  if (style === 'folded') {
+    // Folding joins adjacent lines with a space, so every line break in the text is
+    // written as a blank line. Indented lines would not be folded back the same way.
+    if (lines.some(line => /^\s/.test(line) || line !== line.trimEnd())) return null;
+    lines = lines.flatMap((line, index) => (index === 0 ? [line] : line === '' ? [''] : ['', line]));
+  }
+  if (trailingNewlines > 1) lines.push(...Array(trailingNewlines - 1).fill(''));
+  if (!canWriteAsBlock(lines)) return null;
+  const chomping = trailingNewlines === 0 ? '-' : trailingNewlines === 1 ? '' : '+';
+  const header = `${style === 'literal' ? '|' : '>'}${chomping}`;
+  return [header, ...lines.map(line => (line === '' ? '' : `${blockIndent}${line}`))].join('\n');
+};
+
+// Writes a text value with as little syntax as possible: plain when the parser reads it
+// back unchanged, a "|" block for multi-line text, and a double-quoted string otherwise.
+export const formatZWText = (text: string, blockIndent: string): string => {
+  if (text.includes('\n')) {
+    return formatBlockText(text, 'literal', blockIndent) ?? quoteZWString(text);
+  }
+  return needsQuoting(text) ? quoteZWString(text) : text;
+};
+
+const formatScalar = (element: ZWNode | ZWListItem, blockIndent: string, context: PrintContext): string => {
+  const raw = element.value as string;
+  if (element.scalarStyle) {
+    return formatBlockText(raw, element.scalarStyle, blockIndent) ?? quoteZWString(raw);
+  }
+  const text = unquoteZWString(raw);
+  const isQuoted = text !== raw;
+  if (raw.includes('\n')) {
+    // Text continued on unkeyed lines; written as a proper block instead.
+    return formatZWText(text, blockIndent);
+  }
+  switch (context.quoteStyle) {
+    case 'minimal':
+      return isQuoted ? formatZWText(text, blockIndent) : raw;
+    case 'always':
+      return !isQuoted && isTypedLiteral(raw) ? raw : quoteZWString(text);
+    default:
+      return raw;
+  }
+};
+
+// Inline "[...]" / "{...}" form. Scalars inside keep their source form, except that
+// 'always' quotes bare text.
+const formatFlow = (element: ZWNode | ZWListItem, context: PrintContext): string => {
+  const value = element.value;
+  if (typeof value === 'string') {
+    return context.quoteStyle === 'always' && !isTypedLiteral(value) ? quoteZWString(unquoteZWString(value)) : value;
+  }
+  if (element.flowStyle === 'map') {
+    const entries = sortedChildren(value ?? [], context) as ZWNode[];
+    return entries.length === 0
+      ? '{}'
+      : `{ ${entries.map(entry => `${formatZWKey(entry.key)}${entry.delimiter ?? ':'} ${formatFlow(entry, context)}`).join(', ')} }`;
+  }
+  return `[${(value ?? []).map(child => formatFlow(child, context)).join(', ')}]`;
+};
+
+const sortedChildren = (children: Array<ZWNode | ZWListItem>, context: PrintContext): Array<ZWNode | ZWListItem> =>
+  context.sortKeys && children.every(child => child.kind === 'node')
+    ? [...(children as ZWNode[])].sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+    : children;
+
+const commentLines = (comments: string[] | undefined, indent: string, context: PrintContext): string[] =>
+  context.comments ? (comments ?? []).map(comment => `${indent}# ${comment}`.trimEnd()) : [];
+
+const withInlineComment = (line: string, comment: string | undefined, context: PrintContext): string =>
+  context.comments && comment !== undefined ? `${line} # ${comment}`.trimEnd() : line;
+
+// Writes `head` followed by the element's value: inline for scalars (whose block lines
+// follow) and flow collections, or as indented children for sections and nested lists.
+const printValue = (element: ZWNode | ZWListItem, head: string, indent: string, context: PrintContext): string[] => {
+  const childIndent = indent + context.unit;
+  if (element.flowStyle) {
+    return [withInlineComment(`${head} ${formatFlow(element, context)}`, element.inlineComment, context)];
+  }
+  if (typeof element.value === 'string') {
+    const [firstLine, ...blockLines] = formatScalar(element, childIndent, context).split('\n');
+    return [withInlineComment(`${head} ${firstLine}`, element.inlineComment, context), ...blockLines];
+  }
+  return [
+    withInlineComment(head, element.inlineComment, context),
+    ...printChildren(element.value ?? [], childIndent, context),
+  ];
+};
+
+const printNode = (node: ZWNode, indent: string, context: PrintContext): string[] => [
+  ...commentLines(node.leadingComments, indent, context),
+  ...printValue(node, `${indent}${formatZWKey(node.key)}${node.delimiter ?? ':'}`, indent, context),
+];
+
+const printListItem = (item: ZWListItem, indent: string, context: PrintContext): string[] => {
+  const marker = `${indent}-`;
+  const leading = commentLines(item.leadingComments, indent, context);
+  const value = item.value;
+  const ownsKeys = Array.isArray(value) && value.length > 0 && !item.flowStyle && value[0].kind === 'node';
+  if (!ownsKeys || context.unit.includes('\t')) {
+    return [...leading, ...printValue(item, marker, indent, context)];
+  }
+
+  // The first key goes right after "- " and the others line up with it.
+  const itemIndent = `${indent}  `;
+  const [first, ...rest] = sortedChildren(value as ZWNode[], context) as ZWNode[];
+  const inlineComment = first.inlineComment ?? item.inlineComment;
+  const firstLines = printNode({ ...first, leadingComments: undefined, inlineComment }, itemIndent, context);
+  firstLines[0] = `${indent}- ${firstLines[0].substring(itemIndent.length)}`;
+  return [
+    ...leading,
+    ...commentLines(first.leadingComments, indent, context),
+    ...firstLines,
+    ...rest.flatMap(child => printNode(child, itemIndent, context)),
+  ];
+};
+
+const printChildren = (children: Array<ZWNode | ZWListItem>, indent: string, context: PrintContext): string[] =>
+  sortedChildren(children, context).flatMap(child =>
+    child.kind === 'node' ? printNode(child, indent, context) : printListItem(child, indent, context)
+  );
+
+const createContext = (options: ZWStringifyOptions): PrintContext => ({
+  unit: options.useTabs ? '\t' : ' '.repeat(options.indentWidth ?? DEFAULT_ZW_INDENT_WIDTH),
+  quoteStyle: options.quoteStyle ?? 'preserve',
+  sortKeys: options.sortKeys ?? false,
+  comments: options.comments ?? true,
+});
+
+// Prints a packet (or any node, as if it were the top of a packet) as canonical ZW text.
+export const stringifyZW = (node: ZWNode, options: ZWStringifyOptions = {}): string => {
+  const context = createContext(options);
+  return [
+    ...printNode(node, '', context),
+    ...commentLines(node.trailingComments, '', context),
+  ].join('\n');
+};
+
+// Prints sibling elements (entries of a section or items of a list) without indentation.
+export const stringifyZWElements = (elements: Array<ZWNode | ZWListItem>, options: ZWStringifyOptions = {}): string =>
+  printChildren(elements, '', createContext(options)).join('\n');
+
+// Prints every packet of a document. Packets that were introduced by "---" keep it;
+// the others are separated by a blank line.
+export const stringifyZWDocument = (document: ZWDocument, options: ZWStringifyOptions = {}): string =>
+  document.packets
+    .filter(packet => packet.root)
+    .map((packet, index) => `${index > 0 ? (packet.separator ? '\n---\n\n' : '\n') : ''}${stringifyZW(packet.root as ZWNode, options)}`)
+    .join('\n');
+
+export interface ZWFormatResult {
+  text: string | null; // Null when the input has parse errors or doubtful indentation; formatting could drop or re-nest content then
+  diagnostics: ZWDiagnostic[];
+}
+
+// Indentation the parser had to guess at; reformatting would make its guess permanent.
+const isDoubtfulIndentation = (diagnostic: ZWDiagnostic): boolean =>
+  diagnostic.code === 'odd-indentation' || diagnostic.code === 'mixed-indentation';
+
+// Reformats ZW text. The input is read with the indentation it already uses, and written
+// with the indentation in `options`, which default to that same indentation.
+export const formatZW = (zwString: string, options: ZWStringifyOptions = {}): ZWFormatResult => {
+  const detected = detectZWIndentation(zwString);
+  const document = parseZWDocument(zwString, { indentWidth: detected.width });
+  if (hasParseErrors(document.diagnostics) || document.diagnostics.some(isDoubtfulIndentation)) {
+    return { text: null, diagnostics: document.diagnostics };
+  }
+  const indentWidth = options.indentWidth ?? detected.width;
+  const useTabs = options.useTabs ?? detected.useTabs;
+  return { text: stringifyZWDocument(document, { ...options, indentWidth, useTabs }), diagnostics: document.diagnostics };
+};
@@ -1,9 +1,9 @@
 
-import { ZWNode, ZWListItem } from './zwParser';
+import { ZWNode, ZWListItem, ZWScalar, ZWDiagnostic, ZWDocument, hasParseErrors, formatZWDiagnostic, getZWScalar } from './zwParser';
 
 const escapeGdScriptString = (str: string): string => {
-  // Escapes backslashes and double quotes for GDScript strings.
-  return `"${str.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  // Escapes backslashes, double quotes and line breaks for GDScript strings.
+  return `"${str.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\r/g, '\\r').replace(/\t/g, '\\t')}"`;
 };
 
 const formatGodotKey = (key: string): string => {
@@ -11,49 +11,71 @@ const formatGodotKey = (key: string): string => {
   return escapeGdScriptString(key);
 };
 
-const convertNodeValueToGodot = (
-  nodeValue: ZWNode['value'] | ZWListItem['value'],
-  indentLevel: number
-): string => {
+// GDScript comments use '#' like ZW, so comments from the template can be carried over.
+const formatGodotComments = (comments: string[] | undefined, indent: string): string =>
+  (comments ?? []).map(comment => `${indent}# ${comment}\n`).join('');
+
+// Joins the entries of a GDScript array or dictionary literal, keeping each element's
+// leading comments above it and its inline comment at the end of its first line.
+const joinGodotEntries = (
+  entries: Array<{ text: string; element: ZWNode | ZWListItem }>,
+  indent: string
+): string => entries.map(({ text, element }, index) => {
+  const comma = index < entries.length - 1 ? ',' : '';
+  const lineBreak = text.indexOf('\n');
+  const inline = element.inlineComment !== undefined ? ` # ${element.inlineComment}` : '';
+  const body = lineBreak === -1
+    ? `${text}${comma}${inline}`
+    : `${text.substring(0, lineBreak)}${inline}${text.substring(lineBreak)}${comma}`;
+  return `${formatGodotComments(element.leadingComments, indent)}${indent}${body}`;
+}).join('\n');
+
+// Scalars keep the type the parser resolved: numbers and booleans stay bare literals.
+const formatGodotScalar = (scalar: ZWScalar): string => {
+  switch (scalar.type) {
+    case 'string':
+      return escapeGdScriptString(scalar.value as string);
+    case 'null':
+      return 'null';
+    default:
+      return String(scalar.value);
+  }
+};
+
+const convertNodeValueToGodot = (element: ZWNode | ZWListItem, indentLevel: number): string => {
   const indent = '  '.repeat(indentLevel);
   const nextIndent = '  '.repeat(indentLevel + 1);
+  const nodeValue = element.value;
 
   if (typeof nodeValue === 'string') {
-    return escapeGdScriptString(nodeValue);
+    return formatGodotScalar(getZWScalar(element) as ZWScalar);
   }
 
   if (Array.isArray(nodeValue)) {
     if (nodeValue.length === 0) {
-      // An empty array from ZWNode value (section) implies an empty dictionary.
-      // An empty array from ZWListItem value (list item) implies an empty list.
-      // This heuristic depends on context, but for now, if nodeValue is ZWNode[], it's dict.
-      // If it's ZWListItem[], it's list. The parser ensures this distinction.
-      // The first item check below clarifies.
-      const isLikelyFromListNode = nodeValue.length > 0 && !('key' in nodeValue[0]); // Check if elements are ZWListItems
-      return isLikelyFromListNode ? '[]' : '{}';
+      // An empty section implies an empty dictionary; an inline `[]` is an empty list.
+      return element.flowStyle === 'list' ? '[]' : '{}';
     }
 
     const firstItem = nodeValue[0];
 
-    // Check if it's an array of ZWListItems (forming a GDScript Array)
-    // ZWListItem does not have 'key', ZWNode does.
-    if (!('key' in firstItem) || 'itemKey' in firstItem) {
-      const listItems = (nodeValue as ZWListItem[]).map(listItem => {
-        if (listItem.isKeyValue && listItem.itemKey) {
-          // List item is a Key-Value pair, render as a dictionary within the list
-          return `${nextIndent}{ ${formatGodotKey(listItem.itemKey)}: ${convertNodeValueToGodot(listItem.value, indentLevel + 1)} }`;
-        }
-        // Otherwise, it's a simple value or a nested structure within the list item
-        return `${nextIndent}${convertNodeValueToGodot(listItem.value, indentLevel + 1)}`;
-      });
-      return `[\n${listItems.join(',\n')}\n${indent}]`;
+    // List items form a GDScript Array
+    if (firstItem.kind === 'item') {
+      const listItems = (nodeValue as ZWListItem[]).map(listItem => ({
+        // A simple value, or a nested structure: items that own keys become dictionaries
+        // within the list, nested lists become arrays.
+        text: convertNodeValueToGodot(listItem, indentLevel + 1),
+        element: listItem,
+      }));
+      return `[\n${joinGodotEntries(listItems, nextIndent)}\n${indent}]`;
     }
     // Else, it's an array of ZWNodess (children of a section, forming a GDScript Dictionary)
     else {
-      const dictEntries = (nodeValue as ZWNode[]).map(childNode =>
-        `${nextIndent}${formatGodotKey(childNode.key)}: ${convertNodeValueToGodot(childNode.value, indentLevel + 1)}`
-      );
-      return `{\n${dictEntries.join(',\n')}\n${indent}}`;
+      const dictEntries = (nodeValue as ZWNode[]).map(childNode => ({
+        text: `${formatGodotKey(childNode.key)}: ${convertNodeValueToGodot(childNode, indentLevel + 1)}`,
+        element: childNode,
+      }));
+      return `{\n${joinGodotEntries(dictEntries, nextIndent)}\n${indent}}`;
     }
   }
 
@@ -65,14 +87,12 @@ const convertNodeValueToGodot = (
   return 'null'; // Fallback for unexpected types, though parser should prevent this.
 };
 
-export const convertZwToGodot = (rootNode: ZWNode | null): string => {
-  if (!rootNode || rootNode.key.startsWith('Error:')) {
-    return `# Error: Invalid ZW input or parsing failed.\n# Message: ${rootNode?.key || 'Unknown error'} ${typeof rootNode?.value === 'string' ? rootNode.value : ''}`;
-  }
-
-  // Convert ZW_ROOT_TYPE to ZW_ROOT_TYPE for GDScript variable name
-  const godotVariableName = rootNode.key.replace(/-/g, '_').toUpperCase();
+const convertPacketToGodot = (rootNode: ZWNode, diagnostics: ZWDiagnostic[], godotVariableName: string): string => {
   let gdScriptString = `# Auto-generated GDScript from ZW template: ${rootNode.key}\n`;
+  diagnostics.forEach(d => {
+    gdScriptString += `# ${d.severity === 'warning' ? 'Warning' : 'Note'}: ${formatZWDiagnostic(d)}\n`;
+  });
+  gdScriptString += formatGodotComments(rootNode.leadingComments, '');
   gdScriptString += `var ${godotVariableName} = `;
 
   // rootNode.value from parser is expected to be ZWNode[] or ZWListItem[] if it has children,
@@ -85,10 +105,10 @@ export const convertZwToGodot = (rootNode: ZWNode | null): string => {
     } else {
         // Determine if rootNode.value represents a list or a dictionary structure
         const firstChild = rootNode.value[0];
-        if (!('key' in firstChild) || 'itemKey' in firstChild) { // Indicates ZWListItem array (list)
-            gdScriptString += convertNodeValueToGodot(rootNode.value, 0); // Start indentLevel at 0 for root list
-        } else { // Indicates ZWNode array (dictionary)
-            gdScriptString += convertNodeValueToGodot(rootNode.value, 0); // Start indentLevel at 0 for root dictionary
+        if (firstChild.kind === 'item') { // A list
+            gdScriptString += convertNodeValueToGodot(rootNode, 0); // Start indentLevel at 0 for root list
+        } else { // A dictionary
+            gdScriptString += convertNodeValueToGodot(rootNode, 0); // Start indentLevel at 0 for root dictionary
         }
     }
   } else if (typeof rootNode.value === 'string') {
@@ -100,6 +120,46 @@ export const convertZwToGodot = (rootNode: ZWNode | null): string => {
     gdScriptString += "{}\n# Root node had an unexpected structure or no parsable children.";
   }
 
+  if (rootNode.inlineComment !== undefined) {
+    // Keep the comment from the packet's type line on the variable declaration line.
+    const declarationEnd = gdScriptString.indexOf('\n', gdScriptString.indexOf(`var ${godotVariableName} = `));
+    gdScriptString = declarationEnd === -1
+      ? `${gdScriptString} # ${rootNode.inlineComment}`
+      : `${gdScriptString.substring(0, declarationEnd)} # ${rootNode.inlineComment}${gdScriptString.substring(declarationEnd)}`;
+  }
   gdScriptString += "\n";
+  gdScriptString += formatGodotComments(rootNode.trailingComments, '');
   return gdScriptString;
 };
+
+const formatGodotErrors = (diagnostics: ZWDiagnostic[]): string => {
+  const messages = diagnostics.length > 0 ? diagnostics.map(d => `# ${formatZWDiagnostic(d)}`).join('\n') : '# Message: Unknown error';
+  return `# Error: Invalid ZW input or parsing failed.\n${messages}`;
+};
+
+// Convert ZW-ROOT-TYPE to ZW_ROOT_TYPE for GDScript variable name
+const toGodotVariableName = (rootKey: string): string => rootKey.replace(/-/g, '_').toUpperCase();
+
+// Parser diagnostics, if given, are reported as comments at the top of the script;
+// any error-level diagnostic aborts the export.
+export const convertZwToGodot = (rootNode: ZWNode | null, diagnostics: ZWDiagnostic[] = []): string => {
+  if (!rootNode || hasParseErrors(diagnostics)) {
+    return formatGodotErrors(diagnostics);
+  }
+  return convertPacketToGodot(rootNode, diagnostics, toGodotVariableName(rootNode.key));
+};
+
+// Exports every packet of a document as its own variable. Packets sharing a ZW Type get
+// numbered names (ZW_EVENT, ZW_EVENT_2, ...) so the script stays valid.
+export const convertZwDocumentToGodot = (document: ZWDocument): string => {
+  if (document.packets.length === 0 || hasParseErrors(document.diagnostics)) {
+    return formatGodotErrors(document.diagnostics);
+  }
+  const nameCounts: Record<string, number> = {};
+  return document.packets.map(packet => {
+    const baseName = toGodotVariableName((packet.root as ZWNode).key);
+    nameCounts[baseName] = (nameCounts[baseName] ?? 0) + 1;
+    const variableName = nameCounts[baseName] === 1 ? baseName : `${baseName}_${nameCounts[baseName]}`;
+    return convertPacketToGodot(packet.root as ZWNode, packet.diagnostics, variableName);
+  }).join('\n');
+};
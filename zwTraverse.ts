@@ -0,0 +1,79 @@
+import { ZWElement, getZWChildren } from './zwParser';
+import { formatZWPathKey } from './zwQuery';
+
+// Where an element sits in the tree being walked. Paths use the query syntax
+// ("CHARACTERS[0].NAME"); the root's path is ''.
+export interface ZWWalkContext {
+  parent?: ZWElement; // Undefined for the root
+  index: number; // Position among the parent's children, 0 for the root
+  path: string;
+  depth: number; // Nesting below the root, which is 0
+}
+
+export type ZWVisitor = (element: ZWElement, context: ZWWalkContext) => boolean | void;
+
+// `enter` runs before an element's children and can return false to skip them;
+// `leave` runs after them.
+export interface ZWVisitorHooks {
+  enter?: ZWVisitor;
+  leave?: (element: ZWElement, context: ZWWalkContext) => void;
+}
+
+// Returns the replacement for an element, null to drop it, or undefined to keep it as is.
+export type ZWTransform = (element: ZWElement, context: ZWWalkContext) => ZWElement | null | undefined;
+
+export const joinZWPath = (parentPath: string, child: ZWElement, index: number): string => {
+  if (child.kind === 'item') return `${parentPath}[${index}]`;
+  return parentPath === '' ? formatZWPathKey(child.key) : `${parentPath}.${formatZWPathKey(child.key)}`;
+};
+
+const childContext = (parent: ZWElement, parentContext: ZWWalkContext, child: ZWElement, index: number): ZWWalkContext => ({
+  parent,
+  index,
+  path: joinZWPath(parentContext.path, child, index),
+  depth: parentContext.depth + 1,
+});
+
+const ROOT_CONTEXT: ZWWalkContext = { index: 0, path: '', depth: 0 };
+
+// Visits the root and every element below it in document order.
+export const walkZW = (root: ZWElement, visitor: ZWVisitor | ZWVisitorHooks): void => {
+  const { enter, leave } = typeof visitor === 'function' ? { enter: visitor, leave: undefined } : visitor;
+  const visit = (element: ZWElement, context: ZWWalkContext) => {
+    if (enter?.(element, context) !== false) {
+      getZWChildren(element).forEach((child, index) => visit(child, childContext(element, context, child, index)));
+    }
+    leave?.(element, context);
+  };
+  visit(root, ROOT_CONTEXT);
+};
+
+// Rebuilds the tree bottom-up: each element reaches `transform` with its children
+// already transformed. The input tree is left untouched. Dropping the root yields null.
+export const mapZW = (root: ZWElement, transform: ZWTransform): ZWElement | null => {
+  const map = (element: ZWElement, context: ZWWalkContext): ZWElement | null => {
+    const copy = { ...element } as ZWElement;
+    if (Array.isArray(element.value)) {
+      copy.value = getZWChildren(element)
+        .map((child, index) => map(child, childContext(element, context, child, index)))
+        .filter((child): child is ZWElement => child !== null) as typeof copy.value;
+    }
+    const result = transform(copy, context);
+    return result === undefined ? copy : result;
+  };
+  return map(root, ROOT_CONTEXT);
+};
+
+// A copy of the tree holding the elements that pass `predicate`, each with its whole
+// subtree, and the ancestors leading to them. The root is always kept.
+export const filterZW = (root: ZWElement, predicate: (element: ZWElement, context: ZWWalkContext) => boolean): ZWElement => {
+  const keep = (element: ZWElement, context: ZWWalkContext): ZWElement | null => {
+    if (context.parent && predicate(element, context)) return mapZW(element, () => undefined);
+    const children = getZWChildren(element)
+      .map((child, index) => keep(child, childContext(element, context, child, index)))
+      .filter((child): child is ZWElement => child !== null);
+    if (context.parent && children.length === 0) return null;
+    return Array.isArray(element.value) ? ({ ...element, value: children } as ZWElement) : { ...element };
+  };
+  return keep(root, ROOT_CONTEXT)!;
+};
@@ -0,0 +1,49 @@
+// A controlled vocabulary is a named list of the values a field may hold, such as a
+// project's emotion tags or quest statuses. Schema fields name the one they draw from
+// with VOCABULARY (see zwSchema.ts).
+
+export interface ZWVocabulary {
+  name: string; // Referred to case-insensitively, e.g. EMOTION_TAGS
+  values: string[];
+}
+
+// Finds the values of the vocabulary a name refers to.
+export type ZWVocabularyResolver = (name: string) => string[] | undefined;
+
+// Reads values written one per line or separated by commas. Blank entries and repeats are dropped.
+export const parseZWVocabularyValues = (text: string): string[] =>
+  [...new Set(text.split(/[\n,]/).map(value => value.trim()).filter(value => value !== ''))];
+
+export const findZWVocabulary = (vocabularies: ZWVocabulary[], name: string): ZWVocabulary | undefined =>
+  vocabularies.find(vocabulary => vocabulary.name.toUpperCase() === name.toUpperCase());
+
+// Levenshtein distance, one row at a time.
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// The values `value` was most likely meant to be, closest first: values that differ only in
+// case or start with it, then those a few edits away (about one per three characters).
+export const suggestZWVocabularyValues = (value: string, values: string[], limit = 3): string[] => {
+  const wanted = value.trim().toLowerCase();
+  if (wanted === '') return [];
+  const allowed = Math.max(1, Math.floor(wanted.length / 3));
+  return values
+    .map(candidate => {
+      const lower = candidate.toLowerCase();
+      const distance = lower === wanted ? 0 : lower.startsWith(wanted) ? 0.5 : editDistance(wanted, lower);
+      return { candidate, distance };
+    })
+    .filter(({ distance }) => distance <= allowed)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+};